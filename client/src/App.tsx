@@ -14,12 +14,19 @@ import {
 import {
   School,
   List,
-  Favorite,
+  CollectionsBookmark,
   BarChart,
+  Link,
+  CallMerge,
+  Delete,
 } from '@mui/icons-material';
-import { StudyCard } from './components/StudyCard';
+import { SessionStudy } from './components/SessionStudy';
 import { WordList } from './components/WordList';
 import { StatsComponent } from './components/Stats';
+import { SynonymGroups } from './components/SynonymGroups';
+import { DuplicatesReview } from './components/DuplicatesReview';
+import { DeckManager } from './components/DeckManager';
+import { Trash } from './components/Trash';
 
 const theme = createTheme({
   palette: {
@@ -97,8 +104,8 @@ function App() {
                 iconPosition="start"
               />
               <Tab 
-                icon={<Favorite />} 
-                label="Favorites" 
+                icon={<CollectionsBookmark />} 
+                label="Decks" 
                 iconPosition="start"
               />
               <Tab 
@@ -106,30 +113,37 @@ function App() {
                 label="Words List" 
                 iconPosition="start"
               />
+              <Tab 
+                icon={<Link />} 
+                label="Synonyms" 
+                iconPosition="start"
+              />
+              <Tab 
+                icon={<CallMerge />} 
+                label="Duplicates" 
+                iconPosition="start"
+              />
               <Tab 
                 icon={<BarChart />} 
                 label="Statistics" 
                 iconPosition="start"
               />
+              <Tab 
+                icon={<Delete />} 
+                label="Trash" 
+                iconPosition="start"
+              />
             </Tabs>
           </Box>
 
           <TabPanel value={tabValue} index={0}>
             <Box display="flex" justifyContent="center">
-              <StudyCard 
-                onWordCompleted={handleWordCompleted}
-                favoriteOnly={false}
-              />
+              <SessionStudy onWordCompleted={handleWordCompleted} />
             </Box>
           </TabPanel>
 
           <TabPanel value={tabValue} index={1}>
-            <Box display="flex" justifyContent="center">
-              <StudyCard 
-                onWordCompleted={handleWordCompleted}
-                favoriteOnly={true}
-              />
-            </Box>
+            <DeckManager />
           </TabPanel>
 
           <TabPanel value={tabValue} index={2}>
@@ -137,8 +151,20 @@ function App() {
           </TabPanel>
 
           <TabPanel value={tabValue} index={3}>
+            <SynonymGroups />
+          </TabPanel>
+
+          <TabPanel value={tabValue} index={4}>
+            <DuplicatesReview />
+          </TabPanel>
+
+          <TabPanel value={tabValue} index={5}>
             <StatsComponent />
           </TabPanel>
+
+          <TabPanel value={tabValue} index={6}>
+            <Trash onWordUpdated={handleWordUpdated} />
+          </TabPanel>
         </Container>
       </Box>
     </ThemeProvider>
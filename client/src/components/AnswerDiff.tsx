@@ -0,0 +1,37 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { AnswerDiffSegment, DiffSegmentType } from '../types';
+
+// Места ошибок подсвечиваются без показа правильных букв:
+// пропущенные символы отмечаются подчеркиванием
+const SEGMENT_STYLES: Record<DiffSegmentType, React.CSSProperties> = {
+  EQUAL: {},
+  INSERTED: { color: '#d32f2f', textDecoration: 'line-through' },
+  MISSING: { color: '#2e7d32', fontWeight: 'bold' },
+  REPLACED: { color: '#d32f2f', fontWeight: 'bold', textDecoration: 'underline' },
+  SWAPPED: { backgroundColor: '#ffe0b2', fontWeight: 'bold' },
+};
+
+const SEGMENT_TITLES: Record<DiffSegmentType, string> = {
+  EQUAL: '',
+  INSERTED: 'Extra letters',
+  MISSING: 'Missing letters',
+  REPLACED: 'Wrong letters',
+  SWAPPED: 'Swapped letters',
+};
+
+interface AnswerDiffProps {
+  diff: AnswerDiffSegment[];
+}
+
+export const AnswerDiff: React.FC<AnswerDiffProps> = ({ diff }) => (
+  <Box mt={1}>
+    <Typography component="span" sx={{ fontFamily: 'monospace', fontSize: '1.1rem', whiteSpace: 'pre' }}>
+      {diff.map((segment, index) => (
+        <span key={index} style={SEGMENT_STYLES[segment.type]} title={SEGMENT_TITLES[segment.type]}>
+          {segment.type === 'MISSING' ? '_'.repeat(segment.expected.length) : segment.text}
+        </span>
+      ))}
+    </Typography>
+  </Box>
+);
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Menu,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  Favorite,
+  FavoriteBorder,
+  LocalOffer,
+  CollectionsBookmark,
+  RestartAlt,
+  Delete,
+} from '@mui/icons-material';
+import { BulkAction, DeckSummary, TagSummary } from '../types';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  // Выбраны все слова, подходящие под фильтры, а не только загруженные
+  allMatching: boolean;
+  // Сколько всего слов подходит под фильтры
+  total: number;
+  tags: TagSummary[];
+  decks: DeckSummary[];
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onAction: (action: BulkAction, options?: { tag?: string; deckId?: number }) => void;
+}
+
+// Панель массовых действий над выбранными словами в списке слов
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  allMatching,
+  total,
+  tags,
+  decks,
+  onSelectAllMatching,
+  onClear,
+  onAction,
+}) => {
+  const [tagAction, setTagAction] = useState<'ADD_TAG' | 'REMOVE_TAG' | null>(null);
+  const [tagName, setTagName] = useState('');
+  const [deckAnchor, setDeckAnchor] = useState<HTMLElement | null>(null);
+
+  const count = allMatching ? total : selectedCount;
+
+  const openTagDialog = (action: 'ADD_TAG' | 'REMOVE_TAG') => {
+    setTagName('');
+    setTagAction(action);
+  };
+
+  const handleTagSubmit = () => {
+    if (!tagAction || !tagName.trim()) return;
+    onAction(tagAction, { tag: tagName.trim() });
+    setTagAction(null);
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 1, mb: 2, display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+      <Typography variant="body2" sx={{ mx: 1 }}>
+        {allMatching ? `All ${total} matching words selected` : `${selectedCount} selected`}
+      </Typography>
+      {!allMatching && selectedCount < total && (
+        <Button size="small" onClick={onSelectAllMatching}>
+          {`Select all ${total}`}
+        </Button>
+      )}
+      <Button size="small" onClick={onClear}>
+        Clear
+      </Button>
+      <Box flexGrow={1} />
+      <Button size="small" startIcon={<Favorite />} onClick={() => onAction('FAVORITE')}>
+        Favorite
+      </Button>
+      <Button size="small" startIcon={<FavoriteBorder />} onClick={() => onAction('UNFAVORITE')}>
+        Unfavorite
+      </Button>
+      <Button size="small" startIcon={<LocalOffer />} onClick={() => openTagDialog('ADD_TAG')}>
+        Add tag
+      </Button>
+      <Button size="small" startIcon={<LocalOffer />} onClick={() => openTagDialog('REMOVE_TAG')} disabled={tags.length === 0}>
+        Remove tag
+      </Button>
+      <Button
+        size="small"
+        startIcon={<CollectionsBookmark />}
+        onClick={(e) => setDeckAnchor(e.currentTarget)}
+        disabled={!decks.some((deck) => !deck.builtIn)}
+      >
+        Move to deck
+      </Button>
+      <Button size="small" startIcon={<RestartAlt />} onClick={() => onAction('RESET_PROGRESS')}>
+        Reset progress
+      </Button>
+      <Button size="small" color="error" startIcon={<Delete />} onClick={() => onAction('DELETE')}>
+        Delete
+      </Button>
+
+      {/* Во встроенную колоду слова не переносятся: ее состав задается избранным */}
+      <Menu anchorEl={deckAnchor} open={Boolean(deckAnchor)} onClose={() => setDeckAnchor(null)}>
+        {decks.filter((deck) => !deck.builtIn).map((deck) => (
+          <MenuItem
+            key={deck.id}
+            onClick={() => {
+              setDeckAnchor(null);
+              onAction('MOVE_TO_DECK', { deckId: deck.id });
+            }}
+          >
+            {deck.name}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <Dialog open={tagAction !== null} onClose={() => setTagAction(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{tagAction === 'ADD_TAG' ? `Add tag to ${count} words` : `Remove tag from ${count} words`}</DialogTitle>
+        <DialogContent>
+          <Autocomplete
+            freeSolo={tagAction === 'ADD_TAG'}
+            options={tags.map((tag) => tag.name)}
+            inputValue={tagName}
+            onInputChange={(_, value) => setTagName(value)}
+            renderInput={(params) => <TextField {...params} label="Tag" margin="normal" autoFocus />}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTagAction(null)}>Cancel</Button>
+          <Button onClick={handleTagSubmit} variant="contained" disabled={!tagName.trim()}>
+            {tagAction === 'ADD_TAG' ? 'Add' : 'Remove'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Alert,
+  Button,
+  Chip,
+  IconButton,
+  Tooltip,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { Add, Delete, Edit } from '@mui/icons-material';
+import { DeckSummary, GradingStrategyInfo } from '../types';
+import { decksApi } from '../services/api';
+
+// Колоды: создание, переименование, стратегия проверки ответов и удаление. Слова добавляются в колоды из списка слов
+export const DeckManager: React.FC = () => {
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
+  const [strategies, setStrategies] = useState<GradingStrategyInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<DeckSummary | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  // Пустая строка — стратегия по типу упражнения
+  const [strategyValue, setStrategyValue] = useState('');
+
+  const loadDecks = async () => {
+    try {
+      setLoading(true);
+      setDecks(await decksApi.getAll());
+    } catch (err: unknown) {
+      setError('Failed to load decks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDecks();
+    decksApi.getGradingStrategies().then(setStrategies).catch(() => setStrategies([]));
+  }, []);
+
+  const handleCreate = async () => {
+    try {
+      await decksApi.create({ name: newName.trim() });
+      setNewName('');
+      loadDecks();
+    } catch (err: unknown) {
+      setError('Failed to create deck. Deck names must be unique.');
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    try {
+      await decksApi.update(renaming.id, { name: renameValue.trim(), gradingStrategy: strategyValue || null });
+      setRenaming(null);
+      loadDecks();
+    } catch (err: unknown) {
+      setError('Failed to update deck. Deck names must be unique.');
+    }
+  };
+
+  const handleDelete = async (deck: DeckSummary) => {
+    if (!window.confirm(`Delete the deck "${deck.name}"? Its words are kept.`)) return;
+
+    try {
+      await decksApi.delete(deck.id);
+      loadDecks();
+    } catch (err: unknown) {
+      setError('Failed to delete deck');
+    }
+  };
+
+  if (loading) {
+    return <Typography>Loading decks...</Typography>;
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Typography variant="h6" gutterBottom>
+        Decks
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Add words to decks from the word list, then pick a deck when studying. Favorites is a built-in deck
+        that follows the favorite mark of each word.
+      </Typography>
+      <Box display="flex" gap={1} my={2}>
+        <TextField
+          size="small"
+          label="New deck"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && newName.trim() && handleCreate()}
+        />
+        <Button variant="contained" startIcon={<Add />} onClick={handleCreate} disabled={!newName.trim()}>
+          Create
+        </Button>
+      </Box>
+
+      {decks.map((deck) => (
+        <Card key={deck.id} variant="outlined" sx={{ mb: 1 }}>
+          <CardContent sx={{ display: 'flex', alignItems: 'center', gap: 1, '&:last-child': { pb: 2 } }}>
+            <Typography variant="subtitle1" sx={{ flexGrow: 1 }}>{deck.name}</Typography>
+            {deck.builtIn && <Chip size="small" label="Built-in" variant="outlined" />}
+            {deck.gradingStrategy && <Chip size="small" label={`Grading: ${deck.gradingStrategy}`} variant="outlined" color="secondary" />}
+            <Chip size="small" label={`${deck.wordCount} words`} />
+            <Tooltip title="Edit deck">
+              <IconButton
+                onClick={() => {
+                  setRenaming(deck);
+                  setRenameValue(deck.name);
+                  setStrategyValue(deck.gradingStrategy ?? '');
+                }}
+              >
+                <Edit />
+              </IconButton>
+            </Tooltip>
+            {!deck.builtIn && (
+              <Tooltip title="Delete deck">
+                <IconButton onClick={() => handleDelete(deck)} color="error">
+                  <Delete />
+                </IconButton>
+              </Tooltip>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Dialog open={Boolean(renaming)} onClose={() => setRenaming(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Edit Deck</DialogTitle>
+        <DialogContent>
+          <TextField
+            fullWidth
+            label="Name"
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            margin="normal"
+            disabled={renaming?.builtIn}
+          />
+          {/* Стратегия применяется только к упражнениям, для которых она подходит */}
+          <FormControl fullWidth margin="normal">
+            <InputLabel>Answer grading</InputLabel>
+            <Select label="Answer grading" value={strategyValue} onChange={(e) => setStrategyValue(e.target.value)}>
+              <MenuItem value="">Default for each exercise</MenuItem>
+              {strategies.map((strategy) => (
+                <MenuItem key={strategy.name} value={strategy.name}>
+                  {`${strategy.name} (${strategy.exercises.join(', ')})`}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRenaming(null)}>Cancel</Button>
+          <Button onClick={handleRename} variant="contained" disabled={!renameValue.trim()}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
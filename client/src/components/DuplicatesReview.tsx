@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Alert,
+  Button,
+  Chip,
+  Radio,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { CallMerge } from '@mui/icons-material';
+import { DuplicatePair, MergeField, Word } from '../types';
+import { wordsApi } from '../services/api';
+import { PART_OF_SPEECH_LABELS, REGISTER_LABELS } from './WordDetailsFields';
+
+const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  english: 'English',
+  russian: 'Russian',
+  transcription: 'Transcription',
+  notes: 'Notes',
+  partOfSpeech: 'Part of speech',
+  register: 'Register',
+};
+
+const MERGE_FIELDS = Object.keys(MERGE_FIELD_LABELS) as MergeField[];
+
+const pairKey = (pair: DuplicatePair) => pair.words.map((word) => word.id).join('-');
+
+const fieldText = (word: Word, field: MergeField): string => {
+  if (field === 'partOfSpeech') {
+    return word.partOfSpeech ? PART_OF_SPEECH_LABELS[word.partOfSpeech] : '';
+  }
+  if (field === 'register') {
+    return word.register ? REGISTER_LABELS[word.register] : '';
+  }
+  return word[field];
+};
+
+// По умолчанию значение берется из первого слова, а если оно пустое — из второго
+const initialFieldSources = (pair: DuplicatePair) => Object.fromEntries(
+  MERGE_FIELDS.map((field) => [field, fieldText(pair.words[0], field) || !fieldText(pair.words[1], field) ? 0 : 1])
+) as Record<MergeField, number>;
+
+interface DuplicatePairCardProps {
+  pair: DuplicatePair;
+  onMerge: (pair: DuplicatePair, keep: number, fieldSources: Record<MergeField, number>) => void;
+  onDismiss: (pair: DuplicatePair) => void;
+}
+
+// Пара слов рядом: выбирается слово, которое остается, и для каждого поля — чье значение сохранить
+const DuplicatePairCard: React.FC<DuplicatePairCardProps> = ({ pair, onMerge, onDismiss }) => {
+  const [keep, setKeep] = useState(0);
+  const [fieldSources, setFieldSources] = useState<Record<MergeField, number>>(() => initialFieldSources(pair));
+
+  return (
+    <Card variant="outlined" sx={{ mb: 2 }}>
+      <CardContent>
+        <Box display="flex" alignItems="center" gap={1} mb={1}>
+          <Chip
+            size="small"
+            label={pair.exact ? 'Same word' : 'Similar spelling'}
+            color={pair.exact ? 'error' : 'warning'}
+          />
+        </Box>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell />
+              {pair.words.map((word, index) => (
+                <TableCell key={word.id}>
+                  <Radio size="small" checked={keep === index} onChange={() => setKeep(index)} />
+                  Keep this word
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {MERGE_FIELDS.map((field) => (
+              <TableRow key={field}>
+                <TableCell>{MERGE_FIELD_LABELS[field]}</TableCell>
+                {pair.words.map((word, index) => (
+                  <TableCell key={word.id}>
+                    <Radio
+                      size="small"
+                      checked={fieldSources[field] === index}
+                      onChange={() => setFieldSources({ ...fieldSources, [field]: index })}
+                    />
+                    {fieldText(word, field)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell>Examples</TableCell>
+              {pair.words.map((word) => (
+                <TableCell key={word.id}>
+                  {(word.examples ?? []).map((example) => (
+                    <Typography key={example.id} variant="body2">{example.english}</Typography>
+                  ))}
+                </TableCell>
+              ))}
+            </TableRow>
+            <TableRow>
+              <TableCell>Favorite</TableCell>
+              {pair.words.map((word) => (
+                <TableCell key={word.id}>{word.isFavorite ? 'Yes' : 'No'}</TableCell>
+              ))}
+            </TableRow>
+          </TableBody>
+        </Table>
+        <Box display="flex" gap={1} mt={2}>
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<CallMerge />}
+            onClick={() => onMerge(pair, keep, fieldSources)}
+          >
+            Merge
+          </Button>
+          <Button size="small" onClick={() => onDismiss(pair)}>
+            Not duplicates
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const DuplicatesReview: React.FC = () => {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  // Пары, отмеченные как разные слова (до перезагрузки страницы)
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDuplicates = async () => {
+    try {
+      setLoading(true);
+      setPairs(await wordsApi.getDuplicates());
+    } catch (err: unknown) {
+      setError('Failed to load duplicates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDuplicates();
+  }, []);
+
+  const handleMerge = async (pair: DuplicatePair, keep: number, fieldSources: Record<MergeField, number>) => {
+    const target = pair.words[keep];
+    const source = pair.words[1 - keep];
+    try {
+      await wordsApi.merge({
+        targetId: target.id,
+        sourceId: source.id,
+        fromSource: MERGE_FIELDS.filter((field) => fieldSources[field] !== keep),
+      });
+      loadDuplicates();
+    } catch (err: unknown) {
+      setError('Failed to merge words');
+    }
+  };
+
+  const handleDismiss = (pair: DuplicatePair) => {
+    setDismissed(new Set(dismissed).add(pairKey(pair)));
+  };
+
+  if (loading) {
+    return <Typography>Loading duplicates...</Typography>;
+  }
+
+  const visible = pairs.filter((pair) => !dismissed.has(pairKey(pair)));
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Typography variant="h6" gutterBottom>
+        Possible Duplicates
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Merging keeps one word with the chosen values. Answers, accepted variants and the favorite mark
+        of the other word are moved to it.
+      </Typography>
+      {visible.length === 0 && (
+        <Typography color="text.secondary">
+          No possible duplicates found.
+        </Typography>
+      )}
+      {visible.map((pair) => (
+        <DuplicatePairCard key={pairKey(pair)} pair={pair} onMerge={handleMerge} onDismiss={handleDismiss} />
+      ))}
+    </Box>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Box, Button, IconButton, TextField, Tooltip, Typography } from '@mui/material';
+import { Add, ArrowUpward, ArrowDownward, Delete } from '@mui/icons-material';
+import { ExampleInput } from '../types';
+
+interface ExampleFieldsProps {
+  examples: ExampleInput[];
+  onChange: (examples: ExampleInput[]) => void;
+}
+
+// Примеры употребления слова: пары предложений, которые можно добавлять, переставлять и удалять.
+// Пустые пары отбрасываются сервером
+export const ExampleFields: React.FC<ExampleFieldsProps> = ({ examples, onChange }) => {
+  const update = (index: number, example: ExampleInput) => {
+    onChange(examples.map((current, i) => (i === index ? example : current)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const reordered = [...examples];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <Box mt={2}>
+      <Typography variant="subtitle2" gutterBottom>
+        Examples
+      </Typography>
+      {examples.map((example, index) => (
+        <Box key={index} display="flex" gap={1} alignItems="flex-start" mb={1}>
+          <Box flexGrow={1}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Example (English)"
+              value={example.english}
+              onChange={(e) => update(index, { ...example, english: e.target.value })}
+              margin="dense"
+              multiline
+            />
+            <TextField
+              fullWidth
+              size="small"
+              label="Example (Russian)"
+              value={example.russian}
+              onChange={(e) => update(index, { ...example, russian: e.target.value })}
+              margin="dense"
+              multiline
+            />
+          </Box>
+          <Box display="flex" flexDirection="column" mt={1}>
+            <Tooltip title="Move up">
+              <span>
+                <IconButton size="small" onClick={() => move(index, -1)} disabled={index === 0}>
+                  <ArrowUpward fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Move down">
+              <span>
+                <IconButton size="small" onClick={() => move(index, 1)} disabled={index === examples.length - 1}>
+                  <ArrowDownward fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Delete example">
+              <IconButton size="small" color="error" onClick={() => onChange(examples.filter((_, i) => i !== index))}>
+                <Delete fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        </Box>
+      ))}
+      <Button size="small" startIcon={<Add />} onClick={() => onChange([...examples, { english: '', russian: '' }])}>
+        Add example
+      </Button>
+    </Box>
+  );
+};
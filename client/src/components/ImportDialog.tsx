@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Alert,
+  Chip,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  FormControl,
+  FormControlLabel,
+  Checkbox,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import { ImportAction, ImportResult, ReversoEntry, TableFormat, WordColumn } from '../types';
+import { wordsApi } from '../services/api';
+
+const ACTION_COLORS: Record<ImportAction, 'success' | 'info' | 'default' | 'error'> = {
+  ADD: 'success',
+  UPDATE: 'info',
+  SKIP: 'default',
+  ERROR: 'error',
+};
+
+const CHANGE_LABELS: Record<string, string> = {
+  russian: 'new meanings',
+  examples: 'new examples',
+  isFavorite: 'favorite',
+  tags: 'tags',
+  sourceText: 'source text',
+  sourceUrl: 'source URL',
+};
+
+const WORD_COLUMN_LABELS: Record<WordColumn, string> = {
+  english: 'English',
+  russian: 'Russian',
+  exampleEn: 'Example (EN)',
+  exampleRu: 'Example (RU)',
+  isFavorite: 'Favorite',
+  tags: 'Tags',
+  sourceText: 'Source text',
+  sourceUrl: 'Source URL',
+};
+
+const WORD_COLUMNS = Object.keys(WORD_COLUMN_LABELS) as WordColumn[];
+
+const TABLE_DELIMITERS: Record<TableFormat, string> = {
+  csv: ',',
+  tsv: '\t',
+};
+
+type ImportFormat = 'reverso' | TableFormat;
+
+// Формат определяется по расширению файла; .txt — текстовый экспорт Anki (TSV)
+const formatForFile = (name: string): ImportFormat => {
+  const extension = name.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'tsv' || extension === 'txt') return 'tsv';
+  return 'reverso';
+};
+
+// Первая запись таблицы без заголовков Anki (строк вида "#separator:tab"):
+// по ней выбирается число столбцов для сопоставления
+const firstRecord = (content: string, format: TableFormat): string[] => {
+  const line = content.split(/\r?\n/).find((item) => item.trim() !== '' && !/^#[^:]+:/.test(item)) ?? '';
+  return line.split(TABLE_DELIMITERS[format]).map((field) => field.replace(/^"|"$/g, ''));
+};
+
+interface ImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+// Импорт экспорта Reverso (JSON), CSV или TSV: сначала показывается план (dry run), затем изменения сохраняются
+export const ImportDialog: React.FC<ImportDialogProps> = ({ open, onClose, onImported }) => {
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('reverso');
+  const [entries, setEntries] = useState<ReversoEntry[] | null>(null);
+  const [content, setContent] = useState('');
+  const [header, setHeader] = useState(false);
+  // null — столбцы определяются по заголовку или берутся в порядке экспорта
+  const [columns, setColumns] = useState<(WordColumn | null)[] | null>(null);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFileName('');
+    setEntries(null);
+    setContent('');
+    setColumns(null);
+    setPreview(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const runImport = (dryRun: boolean, options: {
+    fileFormat?: ImportFormat;
+    reversoEntries?: ReversoEntry[] | null;
+    tableContent?: string;
+    tableHeader?: boolean;
+    tableColumns?: (WordColumn | null)[] | null;
+  } = {}): Promise<ImportResult> => {
+    const fileFormat = options.fileFormat ?? format;
+    if (fileFormat === 'reverso') {
+      return wordsApi.importWords(options.reversoEntries ?? entries ?? [], dryRun);
+    }
+    const tableColumns = options.tableColumns === undefined ? columns : options.tableColumns;
+    return wordsApi.importTable(fileFormat, {
+      content: options.tableContent ?? content,
+      header: options.tableHeader ?? header,
+      columns: tableColumns ?? undefined,
+    }, dryRun);
+  };
+
+  const loadPreview = async (options: Parameters<typeof runImport>[1]) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setPreview(await runImport(true, options));
+    } catch (err: unknown) {
+      setPreview(null);
+      setError('Failed to read the file. Check the format and the column mapping.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    reset();
+    setFileName(file.name);
+    const fileFormat = formatForFile(file.name);
+    setFormat(fileFormat);
+    const text = await file.text();
+
+    if (fileFormat === 'reverso') {
+      let parsed: ReversoEntry[];
+      try {
+        parsed = JSON.parse(text);
+      } catch (err: unknown) {
+        setError('Failed to read the file. Expected a Reverso translations export (JSON).');
+        return;
+      }
+      setEntries(parsed);
+      await loadPreview({ fileFormat, reversoEntries: parsed });
+      return;
+    }
+
+    // Экспорт CSV начинается с заголовка, экспорт TSV для Anki — со строк "#..."
+    const tableHeader = fileFormat === 'csv';
+    setContent(text);
+    setHeader(tableHeader);
+    await loadPreview({ fileFormat, tableContent: text, tableHeader, tableColumns: null });
+  };
+
+  const handleHeaderChange = (checked: boolean) => {
+    setHeader(checked);
+    loadPreview({ tableHeader: checked });
+  };
+
+  const handleColumnChange = (index: number, value: WordColumn | null) => {
+    const record = firstRecord(content, format as TableFormat);
+    const current = columns ?? record.map((_, i) => WORD_COLUMNS[i] ?? null);
+    const next = current.map((column, i) => (i === index ? value : column));
+    setColumns(next);
+    loadPreview({ tableColumns: next });
+  };
+
+  const handleImport = async () => {
+    try {
+      setLoading(true);
+      setResult(await runImport(false));
+      setPreview(null);
+      onImported();
+    } catch (err: unknown) {
+      setError('Failed to import words');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const summary = result ?? preview;
+  const record = format === 'reverso' || !content ? [] : firstRecord(content, format);
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Words</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Upload a Reverso translations export (JSON), a CSV file or an Anki TSV export. Existing words are matched
+          by the English text: new meanings, examples, tags and missing sources are added to them. Answer history is not
+          changed.
+        </Typography>
+        <Box display="flex" alignItems="center" gap={2} my={2}>
+          <Button variant="outlined" component="label" startIcon={<UploadFile />} disabled={loading}>
+            Choose File
+            <input type="file" accept=".json,.csv,.tsv,.txt" hidden onChange={handleFileChange} />
+          </Button>
+          <Typography variant="body2">{fileName}</Typography>
+        </Box>
+
+        {record.length > 0 && !result && (
+          <Box mb={2}>
+            <FormControlLabel
+              control={<Checkbox checked={header} onChange={(e) => handleHeaderChange(e.target.checked)} />}
+              label="First row is a header"
+            />
+            <Box display="flex" flexWrap="wrap" gap={1} mt={1}>
+              {record.map((value, index) => (
+                <FormControl key={index} size="small" sx={{ minWidth: 140 }}>
+                  <InputLabel>{`Column ${index + 1}`}</InputLabel>
+                  <Select
+                    label={`Column ${index + 1}`}
+                    value={(columns ? columns[index] : null) ?? ''}
+                    displayEmpty={!columns}
+                    renderValue={(selected) => (selected ? WORD_COLUMN_LABELS[selected as WordColumn] : (columns ? 'Skip' : 'Auto'))}
+                    onChange={(e) => handleColumnChange(index, (e.target.value || null) as WordColumn | null)}
+                  >
+                    <MenuItem value="">Skip</MenuItem>
+                    {WORD_COLUMNS.map((column) => (
+                      <MenuItem key={column} value={column}>{WORD_COLUMN_LABELS[column]}</MenuItem>
+                    ))}
+                  </Select>
+                  <Typography variant="caption" color="text.secondary" noWrap sx={{ maxWidth: 140 }}>
+                    {value}
+                  </Typography>
+                </FormControl>
+              ))}
+            </Box>
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {summary && (
+          <>
+            <Alert severity={result ? 'success' : 'info'} sx={{ mb: 2 }}>
+              {result ? 'Imported' : 'Preview'}: {summary.added} to add, {summary.updated} to update,
+              {' '}{summary.skipped} skipped, {summary.errors} with errors
+            </Alert>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Row</TableCell>
+                  <TableCell>Action</TableCell>
+                  <TableCell>English</TableCell>
+                  <TableCell>Russian</TableCell>
+                  <TableCell>Details</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {summary.items.map((item, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{item.row}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={item.action} color={ACTION_COLORS[item.action]} />
+                    </TableCell>
+                    <TableCell>{item.english}</TableCell>
+                    <TableCell>{item.russian}</TableCell>
+                    <TableCell>
+                      {item.reason ?? item.changes?.map((field) => CHANGE_LABELS[field] ?? field).join(', ')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>{result ? 'Close' : 'Cancel'}</Button>
+        {!result && (
+          <Button
+            onClick={handleImport}
+            variant="contained"
+            disabled={!preview || loading || preview.added + preview.updated === 0}
+          >
+            Import
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
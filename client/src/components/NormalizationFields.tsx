@@ -0,0 +1,52 @@
+import React from 'react';
+import { FormControl, FormLabel, FormGroup, FormControlLabel, Checkbox } from '@mui/material';
+import { NormalizationRule } from '../types';
+
+export const NORMALIZATION_RULE_LABELS: Record<NormalizationRule, string> = {
+  APOSTROPHES: 'Curly apostrophes',
+  CONTRACTIONS: 'Contractions (don\'t = do not)',
+  PUNCTUATION: 'Ignore punctuation',
+  WHITESPACE: 'Ignore extra spaces',
+  OPTIONAL_PREFIX: 'Optional leading "to" / article',
+  REFLEXIVE: 'Russian: ignore reflexive -ся/-сь',
+  ASPECT: 'Russian: ignore verb aspect (делать = сделать)',
+};
+
+export const ALL_NORMALIZATION_RULES = Object.keys(NORMALIZATION_RULE_LABELS) as NormalizationRule[];
+
+// Правила для русских глаголов включаются у слова только вручную
+export const DEFAULT_NORMALIZATION_RULES = ALL_NORMALIZATION_RULES
+  .filter((rule) => rule !== 'REFLEXIVE' && rule !== 'ASPECT');
+
+interface NormalizationFieldsProps {
+  rules: NormalizationRule[];
+  onChange: (rules: NormalizationRule[]) => void;
+}
+
+// Правила нормализации, с которыми проверяется ответ на слово
+export const NormalizationFields: React.FC<NormalizationFieldsProps> = ({ rules, onChange }) => {
+  const handleToggle = (rule: NormalizationRule, checked: boolean) => {
+    onChange(ALL_NORMALIZATION_RULES.filter((item) => (item === rule ? checked : rules.includes(item))));
+  };
+
+  return (
+    <FormControl component="fieldset" margin="normal">
+      <FormLabel component="legend">Answer checking</FormLabel>
+      <FormGroup>
+        {ALL_NORMALIZATION_RULES.map((rule) => (
+          <FormControlLabel
+            key={rule}
+            control={
+              <Checkbox
+                size="small"
+                checked={rules.includes(rule)}
+                onChange={(e) => handleToggle(rule, e.target.checked)}
+              />
+            }
+            label={NORMALIZATION_RULE_LABELS[rule]}
+          />
+        ))}
+      </FormGroup>
+    </FormControl>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  Button,
+  Box,
+  Alert,
+  FormControlLabel,
+  Checkbox,
+  LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  List,
+  ListItem,
+  ListItemText,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import { PlayArrow, Replay } from '@mui/icons-material';
+import { Direction, MasteryLevel, StudySession, SessionSummary, DeckSummary } from '../types';
+import { sessionsApi, decksApi } from '../services/api';
+import { StudyCard, MASTERY_LEVEL_LABELS } from './StudyCard';
+
+interface SessionStudyProps {
+  onWordCompleted: () => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} min ${seconds % 60} s` : `${seconds} s`;
+};
+
+export const SessionStudy: React.FC<SessionStudyProps> = ({ onWordCompleted }) => {
+  const [size, setSize] = useState(20);
+  const [direction, setDirection] = useState<Direction>('RU_EN');
+  const [levels, setLevels] = useState<MasteryLevel[]>([]);
+  // undefined — слова из всех колод
+  const [deckId, setDeckId] = useState<number | undefined>(undefined);
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
+  const [newOnly, setNewOnly] = useState(false);
+  const [failedRecently, setFailedRecently] = useState(false);
+  const [session, setSession] = useState<StudySession | null>(null);
+  const [summary, setSummary] = useState<SessionSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Свободная практика без ограничения по количеству слов
+  const [freePractice, setFreePractice] = useState(false);
+
+  useEffect(() => {
+    decksApi.getAll().then(setDecks).catch(() => setDecks([]));
+  }, []);
+
+  const handleStart = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSummary(null);
+      const created = await sessionsApi.create({ size, direction, levels, deckId, newOnly, failedRecently });
+      if (created) {
+        setSession(created);
+      } else {
+        setError('No words match these filters');
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error && err.message ? err.message : 'Failed to start session');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSessionProgress = async (updated: StudySession) => {
+    setSession(updated);
+    if (updated.finishedAt) {
+      try {
+        setSummary(await sessionsApi.getSummary(updated.id));
+      } catch (err: unknown) {
+        setError('Failed to load session results');
+      }
+    }
+  };
+
+  const handleNewSession = () => {
+    setSession(null);
+    setSummary(null);
+  };
+
+  if (freePractice) {
+    return (
+      <Box sx={{ minWidth: 400, maxWidth: 600 }}>
+        <Button variant="text" onClick={() => setFreePractice(false)} sx={{ mb: 1 }}>
+          Back to sessions
+        </Button>
+        <StudyCard onWordCompleted={onWordCompleted} />
+      </Box>
+    );
+  }
+
+  if (summary) {
+    return (
+      <Card sx={{ minWidth: 400, maxWidth: 600 }}>
+        <CardContent>
+          <Typography variant="h5" gutterBottom>
+            Session complete
+          </Typography>
+          <Box display="grid" gridTemplateColumns="repeat(3, 1fr)" gap={2} mb={3}>
+            <Box>
+              <Typography variant="body2" color="text.secondary">Accuracy</Typography>
+              <Typography variant="h4" color="primary">{summary.accuracy}%</Typography>
+            </Box>
+            <Box>
+              <Typography variant="body2" color="text.secondary">Answers</Typography>
+              <Typography variant="h4">{summary.correctAnswers}/{summary.totalAnswers}</Typography>
+            </Box>
+            <Box>
+              <Typography variant="body2" color="text.secondary">Time</Typography>
+              <Typography variant="h4">{formatDuration(summary.timeSpentSeconds)}</Typography>
+            </Box>
+          </Box>
+
+          {summary.missedWords.length > 0 ? (
+            <>
+              <Typography variant="h6">Words missed</Typography>
+              <List dense>
+                {summary.missedWords.map((word) => (
+                  <ListItem key={word.id} disableGutters>
+                    <ListItemText primary={word.english} secondary={word.russian} />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          ) : (
+            <Alert severity="success" sx={{ mb: 2 }}>
+              No mistakes in this session!
+            </Alert>
+          )}
+
+          <Button variant="contained" fullWidth startIcon={<Replay />} onClick={handleNewSession}>
+            New Session
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (session) {
+    return (
+      <Box sx={{ minWidth: 400, maxWidth: 600 }}>
+        <Box display="flex" justifyContent="space-between" mb={1}>
+          <Typography variant="body2" color="text.secondary">
+            Session progress
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {session.completedCount} / {session.size}
+          </Typography>
+        </Box>
+        <LinearProgress
+          variant="determinate"
+          value={session.size ? (session.completedCount / session.size) * 100 : 0}
+          sx={{ mb: 2, height: 8, borderRadius: 1 }}
+        />
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <StudyCard
+          onWordCompleted={onWordCompleted}
+          sessionId={session.id}
+          onSessionProgress={handleSessionProgress}
+        />
+      </Box>
+    );
+  }
+
+  return (
+    <Card sx={{ minWidth: 400, maxWidth: 600 }}>
+      <CardContent>
+        <Typography variant="h5" gutterBottom>
+          New study session
+        </Typography>
+        <TextField
+          fullWidth
+          type="number"
+          label="Number of words"
+          value={size}
+          onChange={(e) => setSize(Math.max(1, Math.min(100, parseInt(e.target.value) || 1)))}
+          margin="normal"
+          inputProps={{ min: 1, max: 100 }}
+        />
+        <ToggleButtonGroup
+          value={direction}
+          exclusive
+          size="small"
+          fullWidth
+          onChange={(_, value: Direction | null) => value && setDirection(value)}
+          sx={{ my: 1 }}
+        >
+          <ToggleButton value="RU_EN">RU → EN</ToggleButton>
+          <ToggleButton value="EN_RU">EN → RU</ToggleButton>
+        </ToggleButtonGroup>
+        <ToggleButtonGroup
+          value={levels}
+          size="small"
+          fullWidth
+          onChange={(_, value: MasteryLevel[]) => setLevels(value)}
+          sx={{ mb: 1 }}
+        >
+          {(Object.keys(MASTERY_LEVEL_LABELS) as MasteryLevel[]).map((level) => (
+            <ToggleButton key={level} value={level}>
+              {MASTERY_LEVEL_LABELS[level]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        {decks.length > 0 && (
+          <FormControl size="small" fullWidth sx={{ mt: 1 }}>
+            <InputLabel>Deck</InputLabel>
+            <Select
+              label="Deck"
+              value={deckId ?? ''}
+              onChange={(e) => setDeckId(e.target.value ? Number(e.target.value) : undefined)}
+            >
+              <MenuItem value="">All words</MenuItem>
+              {decks.map((deck) => (
+                <MenuItem key={deck.id} value={deck.id}>{`${deck.name} (${deck.wordCount})`}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+        <Box display="flex" flexDirection="column" mb={2}>
+          <FormControlLabel
+            control={<Checkbox checked={newOnly} onChange={(e) => setNewOnly(e.target.checked)} />}
+            label="New words only"
+          />
+          <FormControlLabel
+            control={<Checkbox checked={failedRecently} onChange={(e) => setFailedRecently(e.target.checked)} />}
+            label="Failed recently"
+          />
+        </Box>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Button
+          variant="contained"
+          fullWidth
+          startIcon={<PlayArrow />}
+          onClick={handleStart}
+          disabled={loading}
+        >
+          {loading ? 'Starting...' : 'Start Session'}
+        </Button>
+        <Button variant="text" fullWidth sx={{ mt: 1 }} onClick={() => setFreePractice(true)}>
+          Free Practice
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
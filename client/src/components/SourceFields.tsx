@@ -0,0 +1,48 @@
+import React from 'react';
+import { Autocomplete, Chip, TextField } from '@mui/material';
+
+export interface SourceValues {
+  tags?: string[];
+  sourceText?: string;
+  sourceUrl?: string;
+}
+
+interface SourceFieldsProps {
+  values: SourceValues;
+  // Существующие метки для подсказки при вводе
+  suggestions: string[];
+  onChange: (values: SourceValues) => void;
+}
+
+// Метки и источник слова. Новая метка добавляется вводом названия и Enter
+export const SourceFields: React.FC<SourceFieldsProps> = ({ values, suggestions, onChange }) => (
+  <>
+    <Autocomplete
+      multiple
+      freeSolo
+      options={suggestions}
+      value={values.tags ?? []}
+      onChange={(_, tags) => onChange({ ...values, tags: tags.map((tag) => tag.trim()).filter(Boolean) })}
+      renderTags={(tags, getTagProps) => tags.map((tag, index) => (
+        <Chip size="small" label={tag} {...getTagProps({ index })} key={tag} />
+      ))}
+      renderInput={(params) => <TextField {...params} label="Tags" margin="normal" />}
+    />
+    <TextField
+      fullWidth
+      label="Source text"
+      value={values.sourceText ?? ''}
+      onChange={(e) => onChange({ ...values, sourceText: e.target.value })}
+      margin="normal"
+      multiline
+      minRows={2}
+    />
+    <TextField
+      fullWidth
+      label="Source URL"
+      value={values.sourceUrl ?? ''}
+      onChange={(e) => onChange({ ...values, sourceUrl: e.target.value })}
+      margin="normal"
+    />
+  </>
+);
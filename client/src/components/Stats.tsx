@@ -13,6 +13,11 @@ import {
   DialogContentText,
   DialogActions,
   Snackbar,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
 } from '@mui/material';
 
 import {
@@ -22,9 +27,23 @@ import {
   TrendingUp,
   Psychology,
   Book,
+  Translate,
 } from '@mui/icons-material';
-import { Stats } from '../types';
+import { Direction, MasteryLevel, Stats } from '../types';
 import { answersApi } from '../services/api';
+import { MASTERY_LEVEL_LABELS } from './StudyCard';
+
+const MASTERY_LEVEL_COLORS: Record<MasteryLevel, string> = {
+  NEW: '#9e9e9e',
+  LEARNING: '#ed6c02',
+  FAMILIAR: '#0288d1',
+  MASTERED: '#2e7d32',
+};
+
+const DIRECTION_LABELS: Record<Direction, string> = {
+  RU_EN: 'RU → EN',
+  EN_RU: 'EN → RU',
+};
 
 export const StatsComponent: React.FC = () => {
   const [stats, setStats] = useState<Stats | null>(null);
@@ -114,6 +133,18 @@ export const StatsComponent: React.FC = () => {
       icon: <School color="success" />,
       color: '#2e7d32',
     },
+    {
+      title: 'Learned RU → EN',
+      value: stats.learnedByDirection.RU_EN,
+      icon: <Translate color="success" />,
+      color: '#2e7d32',
+    },
+    {
+      title: 'Learned EN → RU',
+      value: stats.learnedByDirection.EN_RU,
+      icon: <Translate color="success" />,
+      color: '#2e7d32',
+    },
     {
       title: 'Favorite Words',
       value: stats.favoriteWords,
@@ -204,6 +235,67 @@ export const StatsComponent: React.FC = () => {
               {Math.round((stats.learnedWords / stats.totalWords) * 100)}% learned
             </Typography>
           </Box>
+
+          <Typography variant="h6" gutterBottom>
+            Mastery Levels
+          </Typography>
+          {(Object.keys(DIRECTION_LABELS) as Direction[]).map((direction) => (
+            <Box key={direction} mb={2}>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                {DIRECTION_LABELS[direction]}
+              </Typography>
+              <Box display="flex" sx={{ height: 20, borderRadius: 1, overflow: 'hidden' }}>
+                {(Object.keys(MASTERY_LEVEL_LABELS) as MasteryLevel[]).map((level) => (
+                  <Box
+                    key={level}
+                    sx={{
+                      width: `${(stats.masteryBreakdown[direction][level] / stats.totalWords) * 100}%`,
+                      backgroundColor: MASTERY_LEVEL_COLORS[level],
+                    }}
+                  />
+                ))}
+              </Box>
+              <Box display="flex" gap={2} mt={0.5}>
+                {(Object.keys(MASTERY_LEVEL_LABELS) as MasteryLevel[]).map((level) => (
+                  <Typography key={level} variant="caption" sx={{ color: MASTERY_LEVEL_COLORS[level] }}>
+                    {MASTERY_LEVEL_LABELS[level]}: {stats.masteryBreakdown[direction][level]}
+                  </Typography>
+                ))}
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {stats.decks.length > 0 && (
+        <Box mt={3}>
+          <Typography variant="h6" gutterBottom>
+            Decks
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Deck</TableCell>
+                <TableCell align="right">Words</TableCell>
+                <TableCell align="right">Learned</TableCell>
+                <TableCell align="right">Due now</TableCell>
+                <TableCell align="right">Answers</TableCell>
+                <TableCell align="right">Accuracy</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {stats.decks.map((deck) => (
+                <TableRow key={deck.id}>
+                  <TableCell>{deck.name}</TableCell>
+                  <TableCell align="right">{deck.totalWords}</TableCell>
+                  <TableCell align="right">{deck.learnedWords}</TableCell>
+                  <TableCell align="right">{deck.dueWords}</TableCell>
+                  <TableCell align="right">{deck.totalAnswers}</TableCell>
+                  <TableCell align="right">{deck.totalAnswers > 0 ? `${deck.accuracy}%` : '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
         </Box>
       )}
 
@@ -16,6 +16,12 @@ import {
   DialogContent,
   DialogActions,
   LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
 } from '@mui/material';
 import {
   Favorite,
@@ -24,23 +30,77 @@ import {
   Error,
   Info,
   Edit,
+  Lightbulb,
 } from '@mui/icons-material';
-import { Word, CheckAnswerResponse, UpdateWordRequest } from '../types';
-import { wordsApi, answersApi } from '../services/api';
+import {
+  Word,
+  CheckAnswerResponse,
+  UpdateWordRequest,
+  Direction,
+  StudyDirection,
+  ExerciseType,
+  StudySession,
+  StudyWordResponse,
+  MasteryLevel,
+  AnswerKind,
+  HintType,
+  HintResponse,
+  TagSummary,
+  DeckSummary,
+  PartOfSpeech,
+} from '../types';
+import { wordsApi, answersApi, sessionsApi, tagsApi, decksApi } from '../services/api';
+import { VariantFields } from './VariantFields';
+import { ExampleFields } from './ExampleFields';
+import { WordHistory } from './WordHistory';
+import { WordDetailsFields, PART_OF_SPEECH_LABELS, REGISTER_LABELS } from './WordDetailsFields';
+import { AnswerDiff } from './AnswerDiff';
+import { NormalizationFields, DEFAULT_NORMALIZATION_RULES, NORMALIZATION_RULE_LABELS } from './NormalizationFields';
+
+// Подсказки открываются по порядку: каждая следующая раскрывает больше
+const HINT_ORDER: HintType[] = ['FIRST_LETTER', 'LETTER_COUNT', 'MASK', 'PART_OF_SPEECH'];
+
+export const MASTERY_LEVEL_LABELS: Record<MasteryLevel, string> = {
+  NEW: 'New',
+  LEARNING: 'Learning',
+  FAMILIAR: 'Familiar',
+  MASTERED: 'Mastered',
+};
 
 interface StudyCardProps {
   onWordCompleted: () => void;
-  favoriteOnly?: boolean;
+  // В режиме сессии слова берутся из очереди сессии, а не из общего расписания
+  sessionId?: number;
+  onSessionProgress?: (session: StudySession) => void;
 }
 
 export const StudyCard: React.FC<StudyCardProps> = ({
   onWordCompleted,
-  favoriteOnly = false
+  sessionId,
+  onSessionProgress,
 }) => {
   const [isAnswerRevealed, setIsAnswerRevealed] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const [shouldFocusInput, setShouldFocusInput] = useState(false);
   const [currentWord, setCurrentWord] = useState<Word | null>(null);
+  const [studyDirection, setStudyDirection] = useState<StudyDirection>('RU_EN');
+  const [direction, setDirection] = useState<Direction>('RU_EN');
+  const [exercise, setExercise] = useState<ExerciseType>('TYPING');
+  // Пустой список — слова любого уровня
+  const [levels, setLevels] = useState<MasteryLevel[]>([]);
+  // Пустая строка — слова с любыми метками
+  const [tag, setTag] = useState('');
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  // undefined — слова любой части речи
+  const [partOfSpeech, setPartOfSpeech] = useState<PartOfSpeech | undefined>(undefined);
+  // undefined — слова из всех колод
+  const [deckId, setDeckId] = useState<number | undefined>(undefined);
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
+  const [cloze, setCloze] = useState<string | null>(null);
+  // Пример, выбранный сервером для этого повторения: примеры чередуются от ответа к ответу
+  const [exampleId, setExampleId] = useState<number | null>(null);
+  const [options, setOptions] = useState<string[] | null>(null);
+  const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [answer, setAnswer] = useState('');
   const [result, setResult] = useState<CheckAnswerResponse | null>(null);
   const [loading, setLoading] = useState(false);
@@ -50,29 +110,57 @@ export const StudyCard: React.FC<StudyCardProps> = ({
   const [todayCorrectAnswers, setTodayCorrectAnswers] = useState(0);
   const [totalCorrectAnswers, setTotalCorrectAnswers] = useState(0);
   const [totalWords, setTotalWords] = useState(0);
+  const [dueCount, setDueCount] = useState(0);
+  const [newCount, setNewCount] = useState(0);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [formData, setFormData] = useState<UpdateWordRequest>({
     english: '',
     russian: '',
-    exampleEn: '',
-    exampleRu: '',
+    examples: [],
   });
   const [enteredSynonyms, setEnteredSynonyms] = useState<string[]>([]);
+  const [hints, setHints] = useState<HintResponse[]>([]);
   const autoAdvanceTimeoutRef = useRef<number | null>(null);
+  // Провал по текущему слову уже записан (подсмотренный пример или показанный ответ)
+  const revealRecordedRef = useRef(false);
+  // Ответ, который вернул сервер при записи провала (для пропуска — форма из примера, например "proceeded with")
+  const [revealedAnswer, setRevealedAnswer] = useState<string | null>(null);
+
+  const currentExercise: ExerciseType = options ? 'MULTIPLE_CHOICE' : cloze ? 'CLOZE' : 'TYPING';
+  const usedHints = hints.map((hint) => hint.type);
 
   const loadNextWord = async (excludeCurrent: boolean = false) => {
   try {
       setLoading(true);
       setError(null);
-      const studyWordResponse = await wordsApi.getStudyWord(
-        favoriteOnly,
-        excludeCurrent && currentWord ? currentWord.id : undefined
-      );
+      const excludeId = excludeCurrent && currentWord ? currentWord.id : undefined;
+      const studyWordResponse = sessionId
+        ? await loadSessionWord(sessionId)
+        : exercise === 'CLOZE'
+          ? await wordsApi.getClozeWord(deckId, excludeId, levels, tag, partOfSpeech)
+          : exercise === 'MULTIPLE_CHOICE'
+            ? await wordsApi.getChoiceWord(deckId, excludeId, studyDirection, levels, tag, partOfSpeech)
+            : await wordsApi.getStudyWord(deckId, excludeId, studyDirection, levels, tag, partOfSpeech);
+      if (!studyWordResponse) {
+        setCurrentWord(null);
+        return;
+      }
       setCurrentWord(studyWordResponse.word);
+      // Упражнение с пропуском всегда в направлении RU_EN
+      setDirection('direction' in studyWordResponse ? studyWordResponse.direction : 'RU_EN');
+      setCloze('cloze' in studyWordResponse ? studyWordResponse.cloze : null);
+      setExampleId(studyWordResponse.exampleId);
+      setOptions('options' in studyWordResponse ? studyWordResponse.options : null);
+      setSelectedOption(null);
+      setDueCount(studyWordResponse.dueCount);
+      setNewCount(studyWordResponse.newCount);
       setAnswer('');
       setResult(null);
       setIsExampleRevealed(false);
       setIsAnswerRevealed(false);
+      revealRecordedRef.current = false;
+      setRevealedAnswer(null);
+      setHints([]);
       setShouldFocusInput(true);
     } catch (err: unknown) {
       setError('Failed to load word');
@@ -81,6 +169,22 @@ export const StudyCard: React.FC<StudyCardProps> = ({
     }
   };
 
+  const loadSessionWord = async (id: number): Promise<StudyWordResponse | null> => {
+    const session = await sessionsApi.getById(id);
+    onSessionProgress?.(session);
+    if (!session.currentWord) {
+      return null;
+    }
+    return {
+      word: session.currentWord,
+      direction: session.direction,
+      exampleId: session.currentExampleId,
+      unlearnedCount: session.size - session.completedCount,
+      dueCount: 0,
+      newCount: 0,
+    };
+  };
+
   useEffect(() => {
     if (shouldFocusInput) {
       setShouldFocusInput(false);
@@ -92,18 +196,56 @@ export const StudyCard: React.FC<StudyCardProps> = ({
 
   useEffect(() => {
     loadNextWord();
-  }, [favoriteOnly]);
+  }, [deckId, studyDirection, exercise, levels, tag, partOfSpeech, sessionId]);
+
+  useEffect(() => {
+    if (sessionId) return;
+    tagsApi.getAll().then(setTags).catch(() => setTags([]));
+    decksApi.getAll().then(setDecks).catch(() => setDecks([]));
+  }, [sessionId]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!currentWord || !answer.trim()) return;
+    await submitAnswer(answer);
+  };
+
+  const handleChooseOption = async (option: string) => {
+    if (result || isAnswerRevealed) return;
+    setSelectedOption(option);
+    await submitAnswer(option);
+  };
+
+  const submitAnswer = async (value: string) => {
+    if (!currentWord || !value.trim()) return;
 
     try {
       setLoading(true);
-      const result = await answersApi.checkAnswer({
-        wordId: currentWord.id,
-        answer: answer.trim(),
-      });
+      const result = options
+        ? await answersApi.checkChoice({
+            wordId: currentWord.id,
+            answer: value,
+            direction,
+            sessionId,
+            deckId,
+            hints: usedHints,
+          })
+        : cloze
+          ? await answersApi.checkCloze({
+              wordId: currentWord.id,
+              answer: value.trim(),
+              exampleId: exampleId ?? undefined,
+              sessionId,
+              deckId,
+              hints: usedHints,
+            })
+          : await answersApi.checkAnswer({
+              wordId: currentWord.id,
+              answer: value.trim(),
+              direction,
+              sessionId,
+              deckId,
+              hints: usedHints,
+            });
       setResult(result);
       setTodayCorrectAnswers(result.todayCorrectAnswers);
       setTotalCorrectAnswers(result.totalCorrectAnswers);
@@ -112,7 +254,7 @@ export const StudyCard: React.FC<StudyCardProps> = ({
         setSnackbarOpen(true);
       }
       if (result.isSynonym) {
-        setEnteredSynonyms((prev) => [...prev, answer]);
+        setEnteredSynonyms((prev) => [...prev, value]);
         setAnswer('');
         setShouldFocusInput(true);
       }
@@ -146,15 +288,30 @@ export const StudyCard: React.FC<StudyCardProps> = ({
     }
   };
 
-  const handleEditOpen = () => {
-    if (!currentWord) return;
+  const fillEditForm = (word: Word) => {
     setFormData({
-      english: currentWord.english,
-      russian: currentWord.russian,
-      exampleEn: currentWord.exampleEn,
-      exampleRu: currentWord.exampleRu,
+      english: word.english,
+      russian: word.russian,
+      examples: (word.examples ?? []).map(({ english, russian }) => ({ english, russian })),
+      variants: (word.variants ?? []).map(({ text, direction }) => ({ text, direction })),
+      normalization: word.normalization,
+      partOfSpeech: word.partOfSpeech,
+      register: word.register,
+      transcription: word.transcription,
+      notes: word.notes,
     });
-    setEditDialogOpen(true);
+  };
+
+  const handleEditOpen = async () => {
+    if (!currentWord) return;
+
+    try {
+      // Слово для изучения приходит без вариантов ответа, поэтому загружается целиком
+      fillEditForm(await wordsApi.getById(currentWord.id));
+      setEditDialogOpen(true);
+    } catch (err: unknown) {
+      setError('Failed to load word');
+    }
   };
 
   const handleSaveEdit = async () => {
@@ -173,12 +330,137 @@ export const StudyCard: React.FC<StudyCardProps> = ({
     }
   };
 
+  const handleHint = async () => {
+    if (!currentWord) return;
+    const nextType = HINT_ORDER[hints.length];
+    if (!nextType) return;
+
+    try {
+      const hint = await wordsApi.getHint(currentWord.id, nextType, direction, currentExercise, exampleId ?? undefined);
+      setHints((prev) => [...prev, hint]);
+      setShouldFocusInput(true);
+    } catch (err: unknown) {
+      setError('Failed to load hint');
+    }
+  };
+
+  // Подсмотренный ответ засчитывается как ошибка, если слово еще не было оценено
+  const recordReveal = async (kind: Exclude<AnswerKind, 'ATTEMPT'>) => {
+    if (!currentWord || revealRecordedRef.current) return;
+    if (result && !result.isPartial && !result.isSynonym) return;
+    revealRecordedRef.current = true;
+
+    try {
+      const revealed = await answersApi.revealAnswer({
+        wordId: currentWord.id,
+        kind,
+        direction,
+        exercise: currentExercise,
+        exampleId: exampleId ?? undefined,
+        sessionId,
+        hints: usedHints,
+      });
+      setRevealedAnswer(revealed.correctAnswer || null);
+    } catch (err: unknown) {
+      setError('Failed to record revealed answer');
+    }
+  };
+
   const handleRevealExample = () => {
     if (!isExampleRevealed) {
       setIsExampleRevealed(true);
+      recordReveal('REVEAL');
     }
   };
 
+  const handleShowAnswer = () => {
+    setIsAnswerRevealed(true);
+    recordReveal('GIVE_UP');
+  };
+
+  const modeSelector = (
+    <>
+      <ToggleButtonGroup
+        value={exercise}
+        exclusive
+        size="small"
+        fullWidth
+        onChange={(_, value: ExerciseType | null) => value && setExercise(value)}
+        sx={{ mb: 1 }}
+      >
+        <ToggleButton value="TYPING">Translate</ToggleButton>
+        <ToggleButton value="CLOZE">Fill the gap</ToggleButton>
+        <ToggleButton value="MULTIPLE_CHOICE">Choose</ToggleButton>
+      </ToggleButtonGroup>
+      {exercise !== 'CLOZE' && (
+        <ToggleButtonGroup
+          value={studyDirection}
+          exclusive
+          size="small"
+          fullWidth
+          onChange={(_, value: StudyDirection | null) => value && setStudyDirection(value)}
+          sx={{ mb: 2 }}
+        >
+          <ToggleButton value="RU_EN">RU → EN</ToggleButton>
+          <ToggleButton value="EN_RU">EN → RU</ToggleButton>
+          <ToggleButton value="MIXED">Mixed</ToggleButton>
+        </ToggleButtonGroup>
+      )}
+      <ToggleButtonGroup
+        value={levels}
+        size="small"
+        fullWidth
+        onChange={(_, value: MasteryLevel[]) => setLevels(value)}
+        sx={{ mb: 2 }}
+      >
+        {(Object.keys(MASTERY_LEVEL_LABELS) as MasteryLevel[]).map((level) => (
+          <ToggleButton key={level} value={level}>
+            {MASTERY_LEVEL_LABELS[level]}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+      {decks.length > 0 && (
+        <FormControl size="small" fullWidth sx={{ mb: 2 }}>
+          <InputLabel>Deck</InputLabel>
+          <Select
+            label="Deck"
+            value={deckId ?? ''}
+            onChange={(e) => setDeckId(e.target.value ? Number(e.target.value) : undefined)}
+          >
+            <MenuItem value="">All words</MenuItem>
+            {decks.map((deck) => (
+              <MenuItem key={deck.id} value={deck.id}>{`${deck.name} (${deck.wordCount})`}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+      {tags.length > 0 && (
+        <FormControl size="small" fullWidth sx={{ mb: 2 }}>
+          <InputLabel>Tag</InputLabel>
+          <Select label="Tag" value={tag} onChange={(e) => setTag(e.target.value)}>
+            <MenuItem value="">All tags</MenuItem>
+            {tags.map((item) => (
+              <MenuItem key={item.id} value={item.name}>{`${item.name} (${item.wordCount})`}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+      <FormControl size="small" fullWidth sx={{ mb: 2 }}>
+        <InputLabel>Part of speech</InputLabel>
+        <Select
+          label="Part of speech"
+          value={partOfSpeech ?? ''}
+          onChange={(e) => setPartOfSpeech((e.target.value || undefined) as PartOfSpeech | undefined)}
+        >
+          <MenuItem value="">Any part of speech</MenuItem>
+          {(Object.keys(PART_OF_SPEECH_LABELS) as PartOfSpeech[]).map((value) => (
+            <MenuItem key={value} value={value}>{PART_OF_SPEECH_LABELS[value]}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    </>
+  );
+
   if (loading && !currentWord) {
     return (
       <Card sx={{ minWidth: 400, textAlign: 'center', p: 4 }}>
@@ -203,26 +485,43 @@ export const StudyCard: React.FC<StudyCardProps> = ({
   if (!currentWord) {
     return (
       <Card sx={{ minWidth: 400, textAlign: 'center', p: 4 }}>
+        {!sessionId && modeSelector}
         <Typography variant="h6" gutterBottom>
           No words available for study
         </Typography>
         <Typography color="text.secondary">
-          {favoriteOnly
-            ? 'Add some words to favorites to study them'
-            : 'Add some words to start studying'
+          {deckId !== undefined
+            ? 'Add some words to this deck to study them, or come back when reviews are due'
+            : 'All caught up! Add new words or come back when reviews are due'
           }
         </Typography>
       </Card>
     );
   }
 
+  // В направлении EN_RU показывается английская сторона, а отвечать нужно по-русски
+  const isReverse = direction === 'EN_RU';
+  const prompt = isReverse ? currentWord.english : currentWord.russian;
+  const expectedAnswer = isReverse ? currentWord.russian : currentWord.english;
+  // Если провал уже был записан раньше или слово оценено, берется ответ из проверки
+  const shownAnswer = revealedAnswer || result?.correctAnswer || expectedAnswer;
+  const examples = currentWord.examples ?? [];
+  const exampleIndex = Math.max(0, examples.findIndex((example) => example.id === exampleId));
+  const example = examples[exampleIndex];
+  // Номер примера показывается, если у слова их несколько
+  const exampleNumber = examples.length > 1 ? ` (${exampleIndex + 1} of ${examples.length})` : '';
+  const visibleExample = example && (isReverse ? example.english : example.russian);
+  const hiddenExample = example && (isReverse ? example.russian : example.english);
+  const hasDetails = Boolean(currentWord.partOfSpeech || currentWord.register || currentWord.transcription || currentWord.notes);
+
   return (
     <>
       <Card sx={{ minWidth: 400, maxWidth: 600 }}>
         <CardContent>
+          {!sessionId && modeSelector}
           <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
             <Typography variant="h5" component="div">
-              {currentWord.russian}
+              {prompt}
             </Typography>
             <Box display="flex" alignItems="center">
               <Tooltip title={currentWord.isFavorite ? 'Remove from favorites' : 'Add to favorites'}>
@@ -238,65 +537,124 @@ export const StudyCard: React.FC<StudyCardProps> = ({
             </Box>
           </Box>
 
-          <Box mb={3}>
-            <Typography variant="body2" color="text.secondary" gutterBottom>
-              Example in Russian:
-            </Typography>
-            <Typography variant="body1" sx={{ fontStyle: 'italic' }}>
-              {currentWord.exampleRu}
-            </Typography>
-          </Box>
+          {!sessionId && (
+            <Box display="flex" gap={1} mb={2}>
+              <Chip size="small" label={`Due today: ${dueCount}`} color="warning" variant="outlined" />
+              <Chip size="small" label={`New: ${newCount}`} color="primary" variant="outlined" />
+            </Box>
+          )}
 
-          <Box mb={3}>
-            <Typography variant="body2" color="text.secondary" gutterBottom>
-              Example in English:
-            </Typography>
-            <Box
-              onClick={handleRevealExample}
-              sx={{
-                position: 'relative',
-                cursor: isExampleRevealed ? 'default' : 'pointer',
-                userSelect: isExampleRevealed ? 'text' : 'none',
-              }}
-            >
-              <Typography
-                variant="body1"
+          {currentWord.tags && currentWord.tags.length > 0 && (
+            <Box display="flex" flexWrap="wrap" gap={1} mb={2}>
+              {currentWord.tags.map((wordTag) => (
+                <Chip key={wordTag.id} size="small" label={wordTag.name} />
+              ))}
+            </Box>
+          )}
+
+          {visibleExample && (
+            <Box mb={3}>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                {isReverse ? 'Example in English' : 'Example in Russian'}{exampleNumber}:
+              </Typography>
+              <Typography variant="body1" sx={{ fontStyle: 'italic' }}>
+                {visibleExample}
+              </Typography>
+            </Box>
+          )}
+
+          {cloze ? (
+            <Box mb={3}>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                Fill the gap:
+              </Typography>
+              <Typography variant="body1" sx={{ fontStyle: 'italic' }}>
+                {cloze}
+              </Typography>
+            </Box>
+          ) : hiddenExample && (
+            <Box mb={3}>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                {isReverse ? 'Example in Russian' : 'Example in English'}{exampleNumber}:
+              </Typography>
+              <Box
+                onClick={handleRevealExample}
                 sx={{
-                  fontStyle: 'italic',
-                  filter: isExampleRevealed ? 'none' : 'blur(6px)',
-                  transition: 'filter 0.2s ease',
+                  position: 'relative',
+                  cursor: isExampleRevealed ? 'default' : 'pointer',
+                  userSelect: isExampleRevealed ? 'text' : 'none',
                 }}
               >
-                {currentWord.exampleEn}
-              </Typography>
-              {!isExampleRevealed && (
-                <Chip
-                  size="small"
-                  label="Click to reveal"
-                  color="primary"
-                  sx={{ position: 'absolute', top: -8, right: 0 }}
-                />
-              )}
+                <Typography
+                  variant="body1"
+                  sx={{
+                    fontStyle: 'italic',
+                    filter: isExampleRevealed ? 'none' : 'blur(6px)',
+                    transition: 'filter 0.2s ease',
+                  }}
+                >
+                  {hiddenExample}
+                </Typography>
+                {!isExampleRevealed && (
+                  <Chip
+                    size="small"
+                    label="Click to reveal"
+                    color="primary"
+                    sx={{ position: 'absolute', top: -8, right: 0 }}
+                  />
+                )}
+              </Box>
             </Box>
-          </Box>
+          )}
 
           <form onSubmit={handleSubmit}>
 
-            <TextField
-              fullWidth
-              label="Enter English word"
-              value={answer}
-              onChange={(e) => setAnswer(e.target.value)}
-              disabled={loading || result?.isCorrect || isExampleRevealed || isAnswerRevealed}
-              inputRef={inputRef}
-              sx={{ mb: 2 }}
-              autoComplete="off"
-            />
+            {options ? (
+              <Box display="flex" flexDirection="column" gap={1} mb={2}>
+                {options.map((option) => {
+                  const isRightOption = Boolean(result) && option === result?.correctAnswer;
+                  const isWrongChoice = Boolean(result) && option === selectedOption && !result?.isCorrect;
+                  return (
+                    <Button
+                      key={option}
+                      variant={isRightOption || isWrongChoice ? 'contained' : 'outlined'}
+                      color={isRightOption ? 'success' : isWrongChoice ? 'error' : 'primary'}
+                      onClick={() => handleChooseOption(option)}
+                      disabled={loading && !result}
+                      sx={{ textTransform: 'none', justifyContent: 'flex-start' }}
+                    >
+                      {option}
+                    </Button>
+                  );
+                })}
+              </Box>
+            ) : (
+              <TextField
+                fullWidth
+                label={cloze ? 'Enter the missing words' : isReverse ? 'Enter Russian translation' : 'Enter English word'}
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                disabled={loading || result?.isCorrect || isExampleRevealed || isAnswerRevealed}
+                inputRef={inputRef}
+                sx={{ mb: 2 }}
+                autoComplete="off"
+              />
+            )}
+
+            {hints.length > 0 && (
+              <Box mb={1}>
+                <Alert icon={<Lightbulb />} severity="warning">
+                  {hints.map((hint) => (
+                    <div key={hint.type}>{hint.hint}</div>
+                  ))}
+                </Alert>
+              </Box>
+            )}
 
             {isAnswerRevealed && (
               <Box mb={1}>
                 <Alert icon={<CheckCircle />} severity="info">
-                  Correct answer: <strong>{currentWord.english}</strong>
+                  Correct answer: <strong>{shownAnswer}</strong>
                 </Alert>
               </Box>
             )}
@@ -304,7 +662,7 @@ export const StudyCard: React.FC<StudyCardProps> = ({
             {isExampleRevealed && (
               <Box mb={2}>
                 <Alert icon={<Info />} severity="info">
-                  English example revealed. Input is locked. Click Next to continue.
+                  {isReverse ? 'Russian' : 'English'} example revealed. Input is locked. Click Next to continue.
                 </Alert>
               </Box>
             )}
@@ -314,6 +672,17 @@ export const StudyCard: React.FC<StudyCardProps> = ({
                 {result.isCorrect ? (
                   <Alert icon={<CheckCircle />} severity="success">
                     Correct! Well done!
+                    {result.matchedVariant && (
+                      <> Accepted as <strong>{result.matchedVariant}</strong>.</>
+                    )}
+                    {result.matchedMeaning && (
+                      <> You named the meaning <strong>{result.matchedMeaning}</strong>.</>
+                    )}
+                    {result.normalization && (
+                      <Typography variant="caption" display="block">
+                        Accepted after normalization: {result.normalization.map((rule) => NORMALIZATION_RULE_LABELS[rule].toLowerCase()).join(', ')}
+                      </Typography>
+                    )}
                   </Alert>
                 ) : result.isSynonym ? (
                   <Alert icon={<Info />} severity="info">
@@ -327,6 +696,7 @@ export const StudyCard: React.FC<StudyCardProps> = ({
                 ) : result.isPartial ? (
                   <Alert icon={<Info />} severity="info">
                     {result.hint}
+                    {result.diff && <AnswerDiff diff={result.diff} />}
                   </Alert>
                 ) : (
                   <Alert icon={<Error />} severity="error">
@@ -336,25 +706,63 @@ export const StudyCard: React.FC<StudyCardProps> = ({
               </Box>
             )}
 
+            {/* Сведения о слове показываются только после ответа, чтобы не подсказывать его */}
+            {(isAnswerRevealed || (result && !result.isPartial && !result.isSynonym)) && hasDetails && (
+              <Box mb={2}>
+                <Box display="flex" flexWrap="wrap" alignItems="center" gap={1}>
+                  {currentWord.partOfSpeech && (
+                    <Chip size="small" variant="outlined" label={PART_OF_SPEECH_LABELS[currentWord.partOfSpeech]} />
+                  )}
+                  {currentWord.register && (
+                    <Chip size="small" variant="outlined" color="secondary" label={REGISTER_LABELS[currentWord.register]} />
+                  )}
+                  {currentWord.transcription && (
+                    <Typography variant="body2" color="text.secondary">
+                      /{currentWord.transcription}/
+                    </Typography>
+                  )}
+                </Box>
+                {currentWord.notes && (
+                  <Typography variant="body2" sx={{ mt: 1, whiteSpace: 'pre-line' }}>
+                    {currentWord.notes}
+                  </Typography>
+                )}
+              </Box>
+            )}
+
             <Button
               variant="text"
-              color="secondary"
+              color="warning"
               fullWidth
-              sx={{ mt: 1, mb: 1 }}
-              onClick={() => setIsAnswerRevealed(true)}
-              disabled={isAnswerRevealed || Boolean(result && !result.isCorrect && !result.isPartial && !result.isSynonym)}
+              startIcon={<Lightbulb />}
+              sx={{ mt: 1 }}
+              onClick={handleHint}
+              disabled={hints.length >= HINT_ORDER.length || isAnswerRevealed || isExampleRevealed || Boolean(result && !result.isPartial && !result.isSynonym)}
             >
-              Show Answer
+              Hint ({hints.length}/{HINT_ORDER.length})
             </Button>
 
             <Button
-              type="submit"
-              variant="contained"
+              variant="text"
+              color="secondary"
               fullWidth
-              disabled={loading || !answer.trim() || result?.isCorrect || isExampleRevealed || isAnswerRevealed || Boolean(result && !result.isCorrect && !result.isPartial && !result.isSynonym)}
+              sx={{ mb: 1 }}
+              onClick={handleShowAnswer}
+              disabled={isAnswerRevealed || Boolean(result && !result.isCorrect && !result.isPartial && !result.isSynonym)}
             >
-              {loading ? 'Checking...' : 'Check Answer'}
+              Show Answer
             </Button>
+
+            {!options && (
+              <Button
+                type="submit"
+                variant="contained"
+                fullWidth
+                disabled={loading || !answer.trim() || result?.isCorrect || isExampleRevealed || isAnswerRevealed || Boolean(result && !result.isCorrect && !result.isPartial && !result.isSynonym)}
+              >
+                {loading ? 'Checking...' : 'Check Answer'}
+              </Button>
+            )}
           </form>
 
           <Button
@@ -421,24 +829,31 @@ export const StudyCard: React.FC<StudyCardProps> = ({
             onChange={(e) => setFormData({ ...formData, russian: e.target.value })}
             margin="normal"
           />
-          <TextField
-            fullWidth
-            label="Example (English)"
-            value={formData.exampleEn}
-            onChange={(e) => setFormData({ ...formData, exampleEn: e.target.value })}
-            margin="normal"
-            multiline
-            rows={2}
+          <ExampleFields
+            examples={formData.examples ?? []}
+            onChange={(examples) => setFormData({ ...formData, examples })}
           />
-          <TextField
-            fullWidth
-            label="Example (Russian)"
-            value={formData.exampleRu}
-            onChange={(e) => setFormData({ ...formData, exampleRu: e.target.value })}
-            margin="normal"
-            multiline
-            rows={2}
+          <VariantFields
+            variants={formData.variants ?? []}
+            onChange={(variants) => setFormData({ ...formData, variants })}
+          />
+          <NormalizationFields
+            rules={formData.normalization ?? DEFAULT_NORMALIZATION_RULES}
+            onChange={(normalization) => setFormData({ ...formData, normalization })}
           />
+          <WordDetailsFields
+            values={formData}
+            onChange={(values) => setFormData({ ...formData, ...values })}
+          />
+          {currentWord && (
+            <WordHistory
+              wordId={currentWord.id}
+              onRestored={(word) => {
+                fillEditForm(word);
+                setCurrentWord(word);
+              }}
+            />
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setEditDialogOpen(false)}>Cancel</Button>
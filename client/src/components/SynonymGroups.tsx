@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Alert,
+  Button,
+  Chip,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import { Delete, GroupAdd } from '@mui/icons-material';
+import { SynonymGroup, SynonymSuggestion } from '../types';
+import { synonymsApi } from '../services/api';
+
+export const SynonymGroups: React.FC = () => {
+  const [groups, setGroups] = useState<SynonymGroup[]>([]);
+  const [suggestions, setSuggestions] = useState<SynonymSuggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGroups = async () => {
+    try {
+      setLoading(true);
+      const [groupsData, suggestionsData] = await Promise.all([
+        synonymsApi.getAll(),
+        synonymsApi.getSuggestions(),
+      ]);
+      setGroups(groupsData);
+      setSuggestions(suggestionsData);
+    } catch (err: unknown) {
+      setError('Failed to load synonym groups');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGroups();
+  }, []);
+
+  const handleCreate = async (suggestion: SynonymSuggestion) => {
+    try {
+      await synonymsApi.create({
+        name: suggestion.sharedMeanings[0],
+        wordIds: suggestion.words.map((word) => word.id),
+      });
+      loadGroups();
+    } catch (err: unknown) {
+      setError('Failed to create synonym group');
+    }
+  };
+
+  // Группа из двух слов удаляется целиком: синонимов у оставшегося слова нет
+  const handleRemoveWord = async (group: SynonymGroup, wordId: number) => {
+    try {
+      if (group.words.length <= 2) {
+        await synonymsApi.delete(group.id);
+      } else {
+        await synonymsApi.update(group.id, {
+          wordIds: group.words.map((word) => word.id).filter((id) => id !== wordId),
+        });
+      }
+      loadGroups();
+    } catch (err: unknown) {
+      setError('Failed to update synonym group');
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await synonymsApi.delete(id);
+      loadGroups();
+    } catch (err: unknown) {
+      setError('Failed to delete synonym group');
+    }
+  };
+
+  if (loading) {
+    return <Typography>Loading synonym groups...</Typography>;
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Typography variant="h6" gutterBottom>
+        Synonym Groups
+      </Typography>
+      {groups.length === 0 && (
+        <Typography color="text.secondary" sx={{ mb: 2 }}>
+          No synonym groups yet. Create one from the suggestions below.
+        </Typography>
+      )}
+      {groups.map((group) => (
+        <Card key={group.id} sx={{ mb: 2 }}>
+          <CardContent>
+            <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+              <Typography variant="subtitle1">{group.name || 'Unnamed group'}</Typography>
+              <Tooltip title="Delete group">
+                <IconButton onClick={() => handleDelete(group.id)} color="error">
+                  <Delete />
+                </IconButton>
+              </Tooltip>
+            </Box>
+            <Box display="flex" flexWrap="wrap" gap={1}>
+              {group.words.map((word) => (
+                <Chip
+                  key={word.id}
+                  label={`${word.english} — ${word.russian}`}
+                  onDelete={() => handleRemoveWord(group, word.id)}
+                />
+              ))}
+            </Box>
+          </CardContent>
+        </Card>
+      ))}
+
+      <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>
+        Suggestions
+      </Typography>
+      {suggestions.length === 0 && (
+        <Typography color="text.secondary">
+          No suggestions: no words share a Russian meaning.
+        </Typography>
+      )}
+      {suggestions.map((suggestion) => (
+        <Card key={suggestion.words.map((word) => word.id).join('-')} variant="outlined" sx={{ mb: 2 }}>
+          <CardContent>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Shared meanings: {suggestion.sharedMeanings.join(', ')}
+            </Typography>
+            <Box display="flex" flexWrap="wrap" gap={1} mb={1}>
+              {suggestion.words.map((word) => (
+                <Chip key={word.id} variant="outlined" label={`${word.english} — ${word.russian}`} />
+              ))}
+            </Box>
+            <Button size="small" startIcon={<GroupAdd />} onClick={() => handleCreate(suggestion)}>
+              Create group
+            </Button>
+          </CardContent>
+        </Card>
+      ))}
+    </Box>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Typography,
+  Box,
+  Alert,
+  Button,
+  IconButton,
+  Tooltip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { DeleteForever, RestoreFromTrash } from '@mui/icons-material';
+import { TrashedWord } from '../types';
+import { wordsApi } from '../services/api';
+
+interface TrashProps {
+  onWordUpdated: () => void;
+}
+
+// Корзина: удаленные слова можно вернуть вместе с историей ответов или удалить окончательно.
+// Сервер сам удаляет слова, срок хранения которых истек
+export const Trash: React.FC<TrashProps> = ({ onWordUpdated }) => {
+  const [words, setWords] = useState<TrashedWord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = async () => {
+    try {
+      setLoading(true);
+      setWords(await wordsApi.getTrash());
+    } catch (err: unknown) {
+      setError('Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const handleRestore = async (word: TrashedWord) => {
+    try {
+      await wordsApi.restoreFromTrash(word.id);
+      loadTrash();
+      onWordUpdated();
+    } catch (err: unknown) {
+      setError('Failed to restore word');
+    }
+  };
+
+  const handlePurge = async (word: TrashedWord) => {
+    if (!window.confirm(`Delete "${word.english}" forever? Its answer history will be lost.`)) return;
+
+    try {
+      await wordsApi.purge(word.id);
+      loadTrash();
+    } catch (err: unknown) {
+      setError('Failed to delete word');
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!window.confirm(`Delete all ${words.length} words in trash forever? Their answer history will be lost.`)) return;
+
+    try {
+      await wordsApi.emptyTrash();
+      loadTrash();
+    } catch (err: unknown) {
+      setError('Failed to empty trash');
+    }
+  };
+
+  if (loading) {
+    return <Typography>Loading trash...</Typography>;
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box display="flex" alignItems="center" mb={1}>
+        <Typography variant="h6" sx={{ flexGrow: 1 }}>
+          Trash
+        </Typography>
+        <Button color="error" startIcon={<DeleteForever />} onClick={handleEmpty} disabled={words.length === 0}>
+          Empty trash
+        </Button>
+      </Box>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Deleted words keep their answers and review schedule until they are deleted forever.
+      </Typography>
+
+      {words.length === 0 ? (
+        <Typography color="text.secondary" sx={{ mt: 2 }}>
+          Trash is empty
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>English</TableCell>
+              <TableCell>Russian</TableCell>
+              <TableCell>Deleted</TableCell>
+              <TableCell>Deleted forever on</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {words.map((word) => (
+              <TableRow key={word.id}>
+                <TableCell>{word.english}</TableCell>
+                <TableCell>{word.russian}</TableCell>
+                <TableCell>{new Date(word.deletedAt).toLocaleString()}</TableCell>
+                <TableCell>{new Date(word.purgeAt).toLocaleDateString()}</TableCell>
+                <TableCell align="right">
+                  <Tooltip title="Restore">
+                    <IconButton onClick={() => handleRestore(word)}>
+                      <RestoreFromTrash />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete forever">
+                    <IconButton onClick={() => handlePurge(word)} color="error">
+                      <DeleteForever />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
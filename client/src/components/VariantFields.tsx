@@ -0,0 +1,45 @@
+import React from 'react';
+import { TextField } from '@mui/material';
+import { Direction, WordVariantInput } from '../types';
+
+interface VariantFieldsProps {
+  variants: WordVariantInput[];
+  onChange: (variants: WordVariantInput[]) => void;
+}
+
+const FIELDS: { direction: Direction; label: string }[] = [
+  { direction: 'RU_EN', label: 'Other accepted English answers (one per line)' },
+  { direction: 'EN_RU', label: 'Other accepted Russian answers (one per line)' },
+];
+
+// Поля для принятых вариантов ответа. Пустые строки сохраняются при вводе
+// и отбрасываются сервером
+export const VariantFields: React.FC<VariantFieldsProps> = ({ variants, onChange }) => {
+  const handleChange = (direction: Direction, text: string) => {
+    onChange([
+      ...variants.filter((variant) => variant.direction !== direction),
+      ...text.split('\n').map((line) => ({ text: line, direction })),
+    ]);
+  };
+
+  return (
+    <>
+      {FIELDS.map(({ direction, label }) => (
+        <TextField
+          key={direction}
+          fullWidth
+          label={label}
+          value={variants
+            .filter((variant) => variant.direction === direction)
+            .map((variant) => variant.text)
+            .join('\n')}
+          onChange={(e) => handleChange(direction, e.target.value)}
+          helperText={direction === 'RU_EN' ? 'Use parentheses for optional parts, e.g. "proceed (with)"' : undefined}
+          margin="normal"
+          multiline
+          minRows={2}
+        />
+      ))}
+    </>
+  );
+};
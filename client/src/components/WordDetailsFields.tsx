@@ -0,0 +1,85 @@
+import React from 'react';
+import { Box, FormControl, InputLabel, MenuItem, Select, TextField } from '@mui/material';
+import { PartOfSpeech, Register } from '../types';
+
+export const PART_OF_SPEECH_LABELS: Record<PartOfSpeech, string> = {
+  NOUN: 'Noun',
+  VERB: 'Verb',
+  ADJECTIVE: 'Adjective',
+  ADVERB: 'Adverb',
+  PRONOUN: 'Pronoun',
+  PREPOSITION: 'Preposition',
+  CONJUNCTION: 'Conjunction',
+  INTERJECTION: 'Interjection',
+  PHRASAL_VERB: 'Phrasal verb',
+  PHRASE: 'Phrase',
+};
+
+export const REGISTER_LABELS: Record<Register, string> = {
+  FORMAL: 'Formal',
+  INFORMAL: 'Informal',
+  LEGAL: 'Legal',
+};
+
+export interface WordDetailsValues {
+  partOfSpeech?: PartOfSpeech | null;
+  register?: Register | null;
+  transcription?: string;
+  notes?: string;
+}
+
+interface WordDetailsFieldsProps {
+  values: WordDetailsValues;
+  onChange: (values: WordDetailsValues) => void;
+}
+
+// Часть речи, помета, транскрипция и заметки к слову. Пустое значение списка — "не указано"
+export const WordDetailsFields: React.FC<WordDetailsFieldsProps> = ({ values, onChange }) => (
+  <>
+    <Box display="flex" gap={2} mt={2}>
+      <FormControl fullWidth>
+        <InputLabel>Part of speech</InputLabel>
+        <Select
+          label="Part of speech"
+          value={values.partOfSpeech ?? ''}
+          onChange={(e) => onChange({ ...values, partOfSpeech: (e.target.value || null) as PartOfSpeech | null })}
+        >
+          <MenuItem value="">Not specified</MenuItem>
+          {(Object.keys(PART_OF_SPEECH_LABELS) as PartOfSpeech[]).map((value) => (
+            <MenuItem key={value} value={value}>{PART_OF_SPEECH_LABELS[value]}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <FormControl fullWidth>
+        <InputLabel>Register</InputLabel>
+        <Select
+          label="Register"
+          value={values.register ?? ''}
+          onChange={(e) => onChange({ ...values, register: (e.target.value || null) as Register | null })}
+        >
+          <MenuItem value="">Neutral</MenuItem>
+          {(Object.keys(REGISTER_LABELS) as Register[]).map((value) => (
+            <MenuItem key={value} value={value}>{REGISTER_LABELS[value]}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    </Box>
+    <TextField
+      fullWidth
+      label="Transcription (IPA)"
+      value={values.transcription ?? ''}
+      onChange={(e) => onChange({ ...values, transcription: e.target.value })}
+      margin="normal"
+    />
+    <TextField
+      fullWidth
+      label="Notes"
+      placeholder="Mnemonic, usage notes"
+      value={values.notes ?? ''}
+      onChange={(e) => onChange({ ...values, notes: e.target.value })}
+      margin="normal"
+      multiline
+      minRows={2}
+    />
+  </>
+);
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Typography,
+} from '@mui/material';
+import { ExpandMore, Restore } from '@mui/icons-material';
+import { RevisionAction, Word, WordRevision, WordSnapshot, WordSnapshotField } from '../types';
+import { wordsApi } from '../services/api';
+import { PART_OF_SPEECH_LABELS, REGISTER_LABELS } from './WordDetailsFields';
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+  CREATE: 'Created',
+  UPDATE: 'Edited',
+  DELETE: 'Deleted',
+  RESTORE: 'Restored',
+};
+
+const ACTION_COLORS: Record<RevisionAction, 'success' | 'primary' | 'error' | 'secondary'> = {
+  CREATE: 'success',
+  UPDATE: 'primary',
+  DELETE: 'error',
+  RESTORE: 'secondary',
+};
+
+const FIELD_LABELS: Record<WordSnapshotField, string> = {
+  english: 'English',
+  russian: 'Russian',
+  isFavorite: 'Favorite',
+  normalization: 'Answer normalization',
+  sourceText: 'Source text',
+  sourceUrl: 'Source URL',
+  examples: 'Examples',
+  variants: 'Accepted answers',
+  tags: 'Tags',
+  partOfSpeech: 'Part of speech',
+  register: 'Register',
+  transcription: 'Transcription',
+  notes: 'Notes',
+};
+
+// Значение поля для показа в истории
+const formatField = (snapshot: WordSnapshot | null, field: WordSnapshotField): string => {
+  if (!snapshot) {
+    return '—';
+  }
+  switch (field) {
+    case 'isFavorite':
+      return snapshot.isFavorite ? 'Yes' : 'No';
+    case 'examples':
+      return snapshot.examples.map(({ english, russian }) => (russian ? `${english} — ${russian}` : english)).join('; ') || '—';
+    case 'variants':
+      return snapshot.variants.map(({ text, direction }) => `${text} (${direction})`).join(', ') || '—';
+    case 'partOfSpeech':
+      return snapshot.partOfSpeech ? PART_OF_SPEECH_LABELS[snapshot.partOfSpeech] : '—';
+    case 'register':
+      return snapshot.register ? REGISTER_LABELS[snapshot.register] : '—';
+    case 'normalization':
+    case 'tags':
+      return snapshot[field].join(', ') || '—';
+    default:
+      return snapshot[field] || '—';
+  }
+};
+
+interface WordHistoryProps {
+  wordId: number;
+  onRestored: (word: Word) => void;
+}
+
+// История правок слова в диалоге редактирования. Загружается при раскрытии панели;
+// любую правку можно восстановить — слово возвращается к состоянию после нее
+export const WordHistory: React.FC<WordHistoryProps> = ({ wordId, onRestored }) => {
+  const [revisions, setRevisions] = useState<WordRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = async () => {
+    try {
+      setRevisions(await wordsApi.getHistory(wordId));
+      setError(null);
+    } catch (err: unknown) {
+      setError('Failed to load history');
+    }
+  };
+
+  const handleRestore = async (revision: WordRevision) => {
+    if (!window.confirm('Restore the word to this version? Unsaved changes will be lost.')) return;
+
+    try {
+      const word = await wordsApi.restoreRevision(wordId, revision.id);
+      onRestored(word);
+      await loadHistory();
+    } catch (err: unknown) {
+      setError('Failed to restore version');
+    }
+  };
+
+  return (
+    <Accordion
+      disableGutters
+      sx={{ mt: 2 }}
+      onChange={(_, expanded) => {
+        if (expanded && revisions === null) {
+          loadHistory();
+        }
+      }}
+    >
+      <AccordionSummary expandIcon={<ExpandMore />}>
+        <Typography variant="subtitle2">History</Typography>
+      </AccordionSummary>
+      <AccordionDetails>
+        {error && (
+          <Alert severity="error" sx={{ mb: 1 }}>
+            {error}
+          </Alert>
+        )}
+        {revisions === null && !error && (
+          <Box display="flex" justifyContent="center">
+            <CircularProgress size={24} />
+          </Box>
+        )}
+        {revisions?.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            No changes recorded yet
+          </Typography>
+        )}
+        {revisions?.map((revision) => (
+          <Box key={revision.id} mb={2}>
+            <Box display="flex" alignItems="center" gap={1}>
+              <Chip size="small" label={ACTION_LABELS[revision.action]} color={ACTION_COLORS[revision.action]} />
+              <Typography variant="body2" color="text.secondary" flexGrow={1}>
+                {new Date(revision.createdAt).toLocaleString()} · {revision.author}
+              </Typography>
+              <Button size="small" startIcon={<Restore />} onClick={() => handleRestore(revision)}>
+                Restore
+              </Button>
+            </Box>
+            {revision.action === 'UPDATE' || revision.action === 'RESTORE' ? (
+              revision.changes.map((field) => (
+                <Typography key={field} variant="body2" sx={{ ml: 1 }}>
+                  <strong>{FIELD_LABELS[field]}:</strong> {formatField(revision.before, field)} → {formatField(revision.after, field)}
+                </Typography>
+              ))
+            ) : (
+              <Typography variant="body2" sx={{ ml: 1 }}>
+                {formatField(revision.after ?? revision.before, 'english')} — {formatField(revision.after ?? revision.before, 'russian')}
+              </Typography>
+            )}
+          </Box>
+        ))}
+      </AccordionDetails>
+    </Accordion>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   Table,
   TableBody,
@@ -19,6 +19,15 @@ import {
   Chip,
   Alert,
   Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  InputAdornment,
+  CircularProgress,
+  Menu,
+  ListItemIcon,
+  Checkbox,
 } from '@mui/material';
 import {
   Edit,
@@ -26,51 +35,182 @@ import {
   Favorite,
   FavoriteBorder,
   Add,
+  Search,
+  ArrowUpward,
+  ArrowDownward,
+  UploadFile,
+  FileDownload,
+  CollectionsBookmark,
+  CheckBox,
+  CheckBoxOutlineBlank,
 } from '@mui/icons-material';
-import { Word, CreateWordRequest, UpdateWordRequest } from '../types';
-import { wordsApi } from '../services/api';
+import { Word, WordListItem, WordListQuery, WordSort, SortOrder, CreateWordRequest, UpdateWordRequest, DuplicateMatch, TagSummary, DeckSummary, BulkAction } from '../types';
+import { wordsApi, tagsApi, decksApi } from '../services/api';
+import { VariantFields } from './VariantFields';
+import { NormalizationFields, DEFAULT_NORMALIZATION_RULES } from './NormalizationFields';
+import { ImportDialog } from './ImportDialog';
+import { SourceFields } from './SourceFields';
+import { WordDetailsFields } from './WordDetailsFields';
+import { ExampleFields } from './ExampleFields';
+import { WordHistory } from './WordHistory';
+import { BulkActionBar } from './BulkActionBar';
+
+const PAGE_SIZE = 50;
+// Задержка перед поиском, чтобы не запрашивать сервер на каждую букву
+const SEARCH_DELAY_MS = 300;
+
+const SORT_LABELS: Record<WordSort, string> = {
+  alphabetical: 'Alphabetical',
+  date: 'Date added',
+  accuracy: 'Accuracy',
+  lastAnswered: 'Last answered',
+};
+
+const DEFAULT_SORT_ORDERS: Record<WordSort, SortOrder> = {
+  alphabetical: 'asc',
+  date: 'desc',
+  accuracy: 'asc',
+  lastAnswered: 'desc',
+};
+
+type FilterValue = 'all' | 'yes' | 'no';
+
+const filterParam = (value: FilterValue): boolean | undefined => (value === 'all' ? undefined : value === 'yes');
 
 interface WordListProps {
   onWordUpdated: () => void;
 }
 
 export const WordList: React.FC<WordListProps> = ({ onWordUpdated }) => {
-  const [words, setWords] = useState<Word[]>([]);
+  const [words, setWords] = useState<WordListItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [sort, setSort] = useState<WordSort>('date');
+  const [order, setOrder] = useState<SortOrder>(DEFAULT_SORT_ORDERS.date);
+  const [favoriteFilter, setFavoriteFilter] = useState<FilterValue>('all');
+  const [learnedFilter, setLearnedFilter] = useState<FilterValue>('all');
+  // Пустая строка — слова с любыми метками
+  const [tagFilter, setTagFilter] = useState('');
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  // Пустая строка — слова из любых колод
+  const [deckFilter, setDeckFilter] = useState<number | ''>('');
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
+  // Слово, для которого открыто меню колод
+  const [deckMenu, setDeckMenu] = useState<{ anchor: HTMLElement; word: WordListItem } | null>(null);
+  // Выбранные слова для массовых действий; allMatching — выбраны все слова под фильтрами
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [allMatching, setAllMatching] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [addDialogOpen, setAddDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [exportAnchor, setExportAnchor] = useState<HTMLElement | null>(null);
   const [editingWord, setEditingWord] = useState<Word | null>(null);
+  // Повторы, найденные сервером при добавлении слова
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
   const [formData, setFormData] = useState<CreateWordRequest>({
     english: '',
     russian: '',
-    exampleEn: '',
-    exampleRu: '',
+    examples: [],
   });
 
-  const loadWords = async () => {
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const query = useMemo<WordListQuery>(() => ({
+    search: debouncedSearch,
+    sort,
+    order,
+    favorite: filterParam(favoriteFilter),
+    learned: filterParam(learnedFilter),
+    tag: tagFilter || undefined,
+    deckId: deckFilter || undefined,
+    limit: PAGE_SIZE,
+  }), [debouncedSearch, sort, order, favoriteFilter, learnedFilter, tagFilter, deckFilter]);
+
+  // Загрузить первую страницу заново (после изменения фильтров или слов)
+  const loadWords = useCallback(async () => {
     try {
       setLoading(true);
-      const wordsData = await wordsApi.getAll();
-      setWords(wordsData);
+      // Метки и колоды перезагружаются вместе со списком: после правки слова могли измениться
+      const [page, tagList, deckList] = await Promise.all([wordsApi.getPage(query), tagsApi.getAll(), decksApi.getAll()]);
+      setTags(tagList);
+      setDecks(deckList);
+      setWords(page.words);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
     } catch (err: unknown) {
       setError('Failed to load words');
     } finally {
       setLoading(false);
     }
-  };
+  }, [query]);
 
   useEffect(() => {
     loadWords();
-  }, []);
+  }, [loadWords]);
+
+  // Выбор сбрасывается при смене фильтров: выбранные слова могли пропасть из списка
+  useEffect(() => {
+    setSelected(new Set());
+    setAllMatching(false);
+  }, [query]);
+
+  const loadMore = useCallback(async () => {
+    if (nextCursor === null || loading || loadingMore) return;
+    try {
+      setLoadingMore(true);
+      const page = await wordsApi.getPage({ ...query, cursor: nextCursor });
+      setWords((current) => [...current, ...page.words]);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (err: unknown) {
+      setError('Failed to load words');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [query, nextCursor, loading, loadingMore]);
+
+  // Бесконечная прокрутка: следующая страница загружается, когда конец таблицы становится видимым
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMore();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  const handleSortChange = (value: WordSort) => {
+    setSort(value);
+    setOrder(DEFAULT_SORT_ORDERS[value]);
+  };
 
   const handleEdit = (word: Word) => {
     setEditingWord(word);
     setFormData({
       english: word.english,
       russian: word.russian,
-      exampleEn: word.exampleEn,
-      exampleRu: word.exampleRu,
+      examples: (word.examples ?? []).map(({ english, russian }) => ({ english, russian })),
+      variants: (word.variants ?? []).map(({ text, direction }) => ({ text, direction })),
+      normalization: word.normalization,
+      tags: (word.tags ?? []).map((tag) => tag.name),
+      sourceText: word.sourceText,
+      sourceUrl: word.sourceUrl,
+      partOfSpeech: word.partOfSpeech,
+      register: word.register,
+      transcription: word.transcription,
+      notes: word.notes,
     });
     setEditDialogOpen(true);
   };
@@ -80,18 +220,31 @@ export const WordList: React.FC<WordListProps> = ({ onWordUpdated }) => {
     setFormData({
       english: '',
       russian: '',
-      exampleEn: '',
-      exampleRu: '',
+      examples: [{ english: '', russian: '' }],
+      variants: [],
+      normalization: DEFAULT_NORMALIZATION_RULES,
+      tags: [],
+      sourceText: '',
+      sourceUrl: '',
+      partOfSpeech: null,
+      register: null,
+      transcription: '',
+      notes: '',
     });
+    setDuplicates([]);
     setAddDialogOpen(true);
   };
 
-  const handleSave = async () => {
+  const handleSave = async (allowSimilar = false) => {
     try {
       if (editingWord) {
         await wordsApi.update(editingWord.id, formData);
       } else {
-        await wordsApi.create(formData);
+        const result = await wordsApi.create({ ...formData, allowSimilar });
+        if ('duplicates' in result) {
+          setDuplicates(result.duplicates);
+          return;
+        }
       }
       
       setEditDialogOpen(false);
@@ -104,7 +257,7 @@ export const WordList: React.FC<WordListProps> = ({ onWordUpdated }) => {
   };
 
   const handleDelete = async (id: number) => {
-    if (!window.confirm('Are you sure you want to delete this word?')) return;
+    if (!window.confirm('Move this word to trash? It can be restored from the Trash tab.')) return;
     
     try {
       await wordsApi.delete(id);
@@ -125,9 +278,66 @@ export const WordList: React.FC<WordListProps> = ({ onWordUpdated }) => {
     }
   };
 
-  if (loading) {
-    return <Typography>Loading words...</Typography>;
-  }
+  const handleToggleDeck = async (word: WordListItem, deck: DeckSummary) => {
+    const inDeck = (word.decks ?? []).some(({ id }) => id === deck.id);
+    setDeckMenu(null);
+    try {
+      if (inDeck) {
+        await decksApi.removeWord(deck.id, word.id);
+      } else {
+        await decksApi.addWords(deck.id, [word.id]);
+      }
+      loadWords();
+      onWordUpdated();
+    } catch (err: unknown) {
+      setError('Failed to update deck');
+    }
+  };
+
+  const toggleSelected = (id: number) => {
+    const next = new Set(allMatching ? words.map((word) => word.id) : Array.from(selected));
+    if (!next.delete(id)) {
+      next.add(id);
+    }
+    setSelected(next);
+    setAllMatching(false);
+  };
+
+  const toggleSelectAll = () => {
+    const allSelected = allMatching || selected.size === words.length;
+    setSelected(allSelected ? new Set() : new Set(words.map((word) => word.id)));
+    setAllMatching(false);
+  };
+
+  const clearSelection = () => {
+    setSelected(new Set());
+    setAllMatching(false);
+  };
+
+  const handleBulkAction = async (action: BulkAction, options: { tag?: string; deckId?: number } = {}) => {
+    const count = allMatching ? total : selected.size;
+    if (action === 'DELETE' && !window.confirm(`Move ${count} words to trash?`)) return;
+    if (action === 'RESET_PROGRESS' && !window.confirm(`Reset review progress of ${count} words? Answers are kept.`)) return;
+
+    try {
+      // При выборе всех слов под фильтрами сервер выбирает их сам: загружена может быть только часть
+      const { search: filterSearch, favorite, learned, deckId, tag } = query;
+      await wordsApi.bulk({
+        action,
+        ...(allMatching
+          ? { filter: { search: filterSearch || undefined, favorite, learned, deckId, tag } }
+          : { wordIds: Array.from(selected) }),
+        ...options,
+      });
+      clearSelection();
+      loadWords();
+      onWordUpdated();
+    } catch (err: unknown) {
+      setError('Failed to apply action to selected words');
+    }
+  };
+
+  const exactDuplicate = duplicates.some((match) => match.exact);
 
   if (error) {
     return (
@@ -140,67 +350,264 @@ export const WordList: React.FC<WordListProps> = ({ onWordUpdated }) => {
   return (
     <Box>
       <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
-        <Typography variant="h6">Words List</Typography>
-        <Button
-          variant="contained"
-          startIcon={<Add />}
-          onClick={handleAdd}
-        >
-          Add Word
-        </Button>
+        <Typography variant="h6">Words List ({total})</Typography>
+        <Box display="flex" gap={1}>
+          <Button
+            variant="outlined"
+            startIcon={<FileDownload />}
+            onClick={(e) => setExportAnchor(e.currentTarget)}
+          >
+            Export
+          </Button>
+          <Menu anchorEl={exportAnchor} open={Boolean(exportAnchor)} onClose={() => setExportAnchor(null)}>
+            <MenuItem component="a" href={wordsApi.exportUrl('csv')} onClick={() => setExportAnchor(null)}>
+              CSV
+            </MenuItem>
+            <MenuItem component="a" href={wordsApi.exportUrl('tsv')} onClick={() => setExportAnchor(null)}>
+              TSV (Anki)
+            </MenuItem>
+          </Menu>
+          <Button
+            variant="outlined"
+            startIcon={<UploadFile />}
+            onClick={() => setImportDialogOpen(true)}
+          >
+            Import
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={handleAdd}
+          >
+            Add Word
+          </Button>
+        </Box>
       </Box>
 
-      <TableContainer component={Paper}>
-        <Table>
-          <TableHead>
-            <TableRow>
-              <TableCell>English</TableCell>
-              <TableCell>Russian</TableCell>
-              <TableCell>Example (EN)</TableCell>
-              <TableCell>Example (RU)</TableCell>
-              <TableCell>Favorite</TableCell>
-              <TableCell>Actions</TableCell>
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {words.map((word) => (
-              <TableRow key={word.id}>
-                <TableCell>{word.english}</TableCell>
-                <TableCell>{word.russian}</TableCell>
-                <TableCell sx={{ maxWidth: 200 }}>
-                  <Typography variant="body2" noWrap>
-                    {word.exampleEn}
-                  </Typography>
-                </TableCell>
-                <TableCell sx={{ maxWidth: 200 }}>
-                  <Typography variant="body2" noWrap>
-                    {word.exampleRu}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Tooltip title={word.isFavorite ? 'Remove from favorites' : 'Add to favorites'}>
-                    <IconButton onClick={() => handleToggleFavorite(word.id)}>
-                      {word.isFavorite ? <Favorite color="primary" /> : <FavoriteBorder />}
-                    </IconButton>
-                  </Tooltip>
-                </TableCell>
-                <TableCell>
-                  <Tooltip title="Edit">
-                    <IconButton onClick={() => handleEdit(word)}>
-                      <Edit />
-                    </IconButton>
-                  </Tooltip>
-                  <Tooltip title="Delete">
-                    <IconButton onClick={() => handleDelete(word.id)} color="error">
-                      <Delete />
-                    </IconButton>
-                  </Tooltip>
+      <Box display="flex" flexWrap="wrap" gap={2} mb={2}>
+        <TextField
+          size="small"
+          placeholder="Search words and examples"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          sx={{ flexGrow: 1, minWidth: 220 }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <Search />
+              </InputAdornment>
+            ),
+          }}
+        />
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Sort by</InputLabel>
+          <Select
+            label="Sort by"
+            value={sort}
+            onChange={(e) => handleSortChange(e.target.value as WordSort)}
+          >
+            {(Object.keys(SORT_LABELS) as WordSort[]).map((value) => (
+              <MenuItem key={value} value={value}>{SORT_LABELS[value]}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Tooltip title={order === 'asc' ? 'Ascending' : 'Descending'}>
+          <IconButton onClick={() => setOrder(order === 'asc' ? 'desc' : 'asc')}>
+            {order === 'asc' ? <ArrowUpward /> : <ArrowDownward />}
+          </IconButton>
+        </Tooltip>
+        <FormControl size="small" sx={{ minWidth: 130 }}>
+          <InputLabel>Favorites</InputLabel>
+          <Select
+            label="Favorites"
+            value={favoriteFilter}
+            onChange={(e) => setFavoriteFilter(e.target.value as FilterValue)}
+          >
+            <MenuItem value="all">All</MenuItem>
+            <MenuItem value="yes">Favorites</MenuItem>
+            <MenuItem value="no">Not favorite</MenuItem>
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 130 }}>
+          <InputLabel>Progress</InputLabel>
+          <Select
+            label="Progress"
+            value={learnedFilter}
+            onChange={(e) => setLearnedFilter(e.target.value as FilterValue)}
+          >
+            <MenuItem value="all">All</MenuItem>
+            <MenuItem value="yes">Learned</MenuItem>
+            <MenuItem value="no">Not learned</MenuItem>
+          </Select>
+        </FormControl>
+        {tags.length > 0 && (
+          <FormControl size="small" sx={{ minWidth: 130 }}>
+            <InputLabel>Tag</InputLabel>
+            <Select
+              label="Tag"
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+            >
+              <MenuItem value="">All</MenuItem>
+              {tags.map((tag) => (
+                <MenuItem key={tag.id} value={tag.name}>{`${tag.name} (${tag.wordCount})`}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+        <FormControl size="small" sx={{ minWidth: 130 }}>
+          <InputLabel>Deck</InputLabel>
+          <Select
+            label="Deck"
+            value={deckFilter}
+            onChange={(e) => setDeckFilter(e.target.value ? Number(e.target.value) : '')}
+          >
+            <MenuItem value="">All</MenuItem>
+            {decks.map((deck) => (
+              <MenuItem key={deck.id} value={deck.id}>{`${deck.name} (${deck.wordCount})`}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      {(selected.size > 0 || allMatching) && (
+        <BulkActionBar
+          selectedCount={selected.size}
+          allMatching={allMatching}
+          total={total}
+          tags={tags}
+          decks={decks}
+          onSelectAllMatching={() => setAllMatching(true)}
+          onClear={clearSelection}
+          onAction={handleBulkAction}
+        />
+      )}
+
+      {loading ? (
+        <Typography>Loading words...</Typography>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={allMatching || (words.length > 0 && selected.size === words.length)}
+                    indeterminate={!allMatching && selected.size > 0 && selected.size < words.length}
+                    onChange={toggleSelectAll}
+                    disabled={words.length === 0}
+                  />
                 </TableCell>
+                <TableCell>English</TableCell>
+                <TableCell>Russian</TableCell>
+                <TableCell>Example</TableCell>
+                <TableCell>Accuracy</TableCell>
+                <TableCell>Favorite</TableCell>
+                <TableCell>Actions</TableCell>
               </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-      </TableContainer>
+            </TableHead>
+            <TableBody>
+              {words.map((word) => (
+                <TableRow key={word.id} selected={allMatching || selected.has(word.id)}>
+                  <TableCell padding="checkbox">
+                    <Checkbox checked={allMatching || selected.has(word.id)} onChange={() => toggleSelected(word.id)} />
+                  </TableCell>
+                  <TableCell>
+                    {word.english}
+                    {word.tags && word.tags.length > 0 && (
+                      <Box display="flex" flexWrap="wrap" gap={0.5} mt={0.5}>
+                        {word.tags.map((tag) => (
+                          <Chip key={tag.id} size="small" label={tag.name} onClick={() => setTagFilter(tag.name)} />
+                        ))}
+                      </Box>
+                    )}
+                  </TableCell>
+                  <TableCell>{word.russian}</TableCell>
+                  <TableCell sx={{ maxWidth: 300 }}>
+                    {word.examples && word.examples.length > 0 && (
+                      <>
+                        <Typography variant="body2" noWrap>
+                          {word.examples[0].english}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary" noWrap>
+                          {word.examples[0].russian}
+                        </Typography>
+                        {word.examples.length > 1 && (
+                          <Typography variant="caption" color="text.secondary">
+                            {`+${word.examples.length - 1} more`}
+                          </Typography>
+                        )}
+                      </>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip
+                      title={word.lastAnsweredAt
+                        ? `Last answered ${new Date(word.lastAnsweredAt).toLocaleDateString()}`
+                        : 'Not answered yet'}
+                    >
+                      <span>{word.accuracy === null ? '—' : `${Math.round(word.accuracy * 100)}%`}</span>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={word.isFavorite ? 'Remove from favorites' : 'Add to favorites'}>
+                      <IconButton onClick={() => handleToggleFavorite(word.id)}>
+                        {word.isFavorite ? <Favorite color="primary" /> : <FavoriteBorder />}
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title="Decks">
+                      <IconButton onClick={(e) => setDeckMenu({ anchor: e.currentTarget, word })}>
+                        <CollectionsBookmark />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Edit">
+                      <IconButton onClick={() => handleEdit(word)}>
+                        <Edit />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Move to trash">
+                      <IconButton onClick={() => handleDelete(word.id)} color="error">
+                        <Delete />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+      {!loading && words.length === 0 && (
+        <Typography color="text.secondary" sx={{ mt: 2 }}>
+          No words found
+        </Typography>
+      )}
+      <Menu anchorEl={deckMenu?.anchor} open={Boolean(deckMenu)} onClose={() => setDeckMenu(null)}>
+        {deckMenu && decks.map((deck) => (
+          <MenuItem key={deck.id} onClick={() => handleToggleDeck(deckMenu.word, deck)}>
+            <ListItemIcon>
+              {(deckMenu.word.decks ?? []).some(({ id }) => id === deck.id)
+                ? <CheckBox fontSize="small" />
+                : <CheckBoxOutlineBlank fontSize="small" />}
+            </ListItemIcon>
+            {deck.name}
+          </MenuItem>
+        ))}
+      </Menu>
+      <Box ref={sentinelRef} display="flex" justifyContent="center" py={2}>
+        {loadingMore && <CircularProgress size={24} />}
+      </Box>
+
+      <ImportDialog
+        open={importDialogOpen}
+        onClose={() => setImportDialogOpen(false)}
+        onImported={() => {
+          loadWords();
+          onWordUpdated();
+        }}
+      />
 
       {/* Edit Dialog */}
       <Dialog open={editDialogOpen} onClose={() => setEditDialogOpen(false)} maxWidth="sm" fullWidth>
@@ -220,28 +627,41 @@ export const WordList: React.FC<WordListProps> = ({ onWordUpdated }) => {
             onChange={(e) => setFormData({ ...formData, russian: e.target.value })}
             margin="normal"
           />
-          <TextField
-            fullWidth
-            label="Example (English)"
-            value={formData.exampleEn}
-            onChange={(e) => setFormData({ ...formData, exampleEn: e.target.value })}
-            margin="normal"
-            multiline
-            rows={2}
+          <ExampleFields
+            examples={formData.examples ?? []}
+            onChange={(examples) => setFormData({ ...formData, examples })}
           />
-          <TextField
-            fullWidth
-            label="Example (Russian)"
-            value={formData.exampleRu}
-            onChange={(e) => setFormData({ ...formData, exampleRu: e.target.value })}
-            margin="normal"
-            multiline
-            rows={2}
+          <VariantFields
+            variants={formData.variants ?? []}
+            onChange={(variants) => setFormData({ ...formData, variants })}
+          />
+          <NormalizationFields
+            rules={formData.normalization ?? DEFAULT_NORMALIZATION_RULES}
+            onChange={(normalization) => setFormData({ ...formData, normalization })}
+          />
+          <SourceFields
+            values={formData}
+            suggestions={tags.map((tag) => tag.name)}
+            onChange={(values) => setFormData({ ...formData, ...values })}
+          />
+          <WordDetailsFields
+            values={formData}
+            onChange={(values) => setFormData({ ...formData, ...values })}
           />
+          {editingWord && (
+            <WordHistory
+              wordId={editingWord.id}
+              onRestored={(word) => {
+                handleEdit(word);
+                loadWords();
+                onWordUpdated();
+              }}
+            />
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setEditDialogOpen(false)}>Cancel</Button>
-          <Button onClick={handleSave} variant="contained">Save</Button>
+          <Button onClick={() => handleSave()} variant="contained">Save</Button>
         </DialogActions>
       </Dialog>
 
@@ -253,7 +673,10 @@ export const WordList: React.FC<WordListProps> = ({ onWordUpdated }) => {
             fullWidth
             label="English"
             value={formData.english}
-            onChange={(e) => setFormData({ ...formData, english: e.target.value })}
+            onChange={(e) => {
+              setFormData({ ...formData, english: e.target.value });
+              setDuplicates([]);
+            }}
             margin="normal"
           />
           <TextField
@@ -263,28 +686,44 @@ export const WordList: React.FC<WordListProps> = ({ onWordUpdated }) => {
             onChange={(e) => setFormData({ ...formData, russian: e.target.value })}
             margin="normal"
           />
-          <TextField
-            fullWidth
-            label="Example (English)"
-            value={formData.exampleEn}
-            onChange={(e) => setFormData({ ...formData, exampleEn: e.target.value })}
-            margin="normal"
-            multiline
-            rows={2}
+          <ExampleFields
+            examples={formData.examples ?? []}
+            onChange={(examples) => setFormData({ ...formData, examples })}
           />
-          <TextField
-            fullWidth
-            label="Example (Russian)"
-            value={formData.exampleRu}
-            onChange={(e) => setFormData({ ...formData, exampleRu: e.target.value })}
-            margin="normal"
-            multiline
-            rows={2}
+          <VariantFields
+            variants={formData.variants ?? []}
+            onChange={(variants) => setFormData({ ...formData, variants })}
+          />
+          <NormalizationFields
+            rules={formData.normalization ?? DEFAULT_NORMALIZATION_RULES}
+            onChange={(normalization) => setFormData({ ...formData, normalization })}
+          />
+          <SourceFields
+            values={formData}
+            suggestions={tags.map((tag) => tag.name)}
+            onChange={(values) => setFormData({ ...formData, ...values })}
+          />
+          <WordDetailsFields
+            values={formData}
+            onChange={(values) => setFormData({ ...formData, ...values })}
           />
+          {duplicates.length > 0 && (
+            <Alert severity={exactDuplicate ? 'error' : 'warning'} sx={{ mt: 2 }}>
+              {exactDuplicate ? 'This word is already in the dictionary:' : 'A similar word is already in the dictionary:'}
+              {duplicates.map(({ word }) => (
+                <Typography key={word.id} variant="body2">
+                  <strong>{word.english}</strong> — {word.russian}
+                </Typography>
+              ))}
+            </Alert>
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setAddDialogOpen(false)}>Cancel</Button>
-          <Button onClick={handleSave} variant="contained">Add</Button>
+          {duplicates.length > 0 && !exactDuplicate && (
+            <Button onClick={() => handleSave(true)}>Add anyway</Button>
+          )}
+          <Button onClick={() => handleSave()} variant="contained" disabled={duplicates.length > 0}>Add</Button>
         </DialogActions>
       </Dialog>
     </Box>
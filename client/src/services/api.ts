@@ -8,25 +8,106 @@ import {
   ApiResponse, 
   Stats, 
   StudyWordResponse,
+  StudyDirection,
+  MasteryLevel,
+  ClozeWordResponse,
+  CheckClozeRequest,
+  MultipleChoiceResponse,
+  CheckChoiceRequest,
+  RevealAnswerRequest,
+  HintType,
+  HintResponse,
+  Direction,
+  ExerciseType,
+  CreateSessionRequest,
+  StudySession,
+  SessionSummary,
   ClearAnswersResponse,
+  SynonymGroup,
+  SynonymGroupRequest,
+  SynonymSuggestion,
+  WordListQuery,
+  WordPage,
+  ExampleInput,
+  ReversoEntry,
+  ImportResult,
+  TableFormat,
+  TableImportRequest,
+  DuplicateConflict,
+  DuplicatePair,
+  MergeWordsRequest,
+  TagSummary,
+  DeckSummary,
+  WordRevision,
+  TrashedWord,
+  PurgeTrashResponse,
+  BulkWordsRequest,
+  BulkWordsResult,
+  DeckRequest,
+  PartOfSpeech,
+  GradingStrategyInfo,
 } from '../types';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5500/api';
+const AUTHOR_STORAGE_KEY = 'revisionAuthor';
+
+// Автор правок для истории слова: REACT_APP_AUTHOR или постоянный идентификатор этого браузера
+const revisionAuthor = (): string => {
+  if (process.env.REACT_APP_AUTHOR) {
+    return process.env.REACT_APP_AUTHOR;
+  }
+  let author = localStorage.getItem(AUTHOR_STORAGE_KEY);
+  if (!author) {
+    author = `browser-${Math.random().toString(36).slice(2, 10)}`;
+    localStorage.setItem(AUTHOR_STORAGE_KEY, author);
+  }
+  return author;
+};
 
 const api = axios.create({
   baseURL: API_BASE_URL,
   headers: {
     'Content-Type': 'application/json',
+    'X-Author': revisionAuthor(),
   },
 });
 
 // Words API
 export const wordsApi = {
-  getAll: async (): Promise<Word[]> => {
-    const response = await api.get<ApiResponse<Word[]>>('/words');
-    return response.data.data || [];
+  // Страница списка слов; для следующей страницы передается nextCursor предыдущей
+  getPage: async (query: WordListQuery = {}): Promise<WordPage> => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    const response = await api.get<ApiResponse<WordPage>>(`/words?${params.toString()}`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  // Импорт экспорта Reverso; с dryRun=true сервер только возвращает план изменений
+  importWords: async (entries: ReversoEntry[], dryRun: boolean): Promise<ImportResult> => {
+    const response = await api.post<ApiResponse<ImportResult>>(`/words/import?dryRun=${dryRun}`, entries);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  // Импорт CSV/TSV с сопоставлением столбцов полям слова
+  importTable: async (format: TableFormat, request: TableImportRequest, dryRun: boolean): Promise<ImportResult> => {
+    const response = await api.post<ApiResponse<ImportResult>>(`/words/import?format=${format}&dryRun=${dryRun}`, request);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
   },
 
+  // Ссылка для скачивания всех слов в CSV или TSV (Anki)
+  exportUrl: (format: TableFormat): string => `${API_BASE_URL}/words/export?format=${format}`,
+
   getById: async (id: number): Promise<Word> => {
     const response = await api.get<ApiResponse<Word>>(`/words/${id}`);
     if (!response.data.success) {
@@ -35,11 +116,82 @@ export const wordsApi = {
     return response.data.data!;
   },
 
-  getStudyWord: async (favoriteOnly: boolean = false, excludeId?: number): Promise<StudyWordResponse> => {
+  // Возвращает null, если сейчас нечего повторять
+  getStudyWord: async (
+    deckId?: number,
+    excludeId?: number,
+    direction: StudyDirection = 'RU_EN',
+    levels: MasteryLevel[] = [],
+    tag?: string,
+    partOfSpeech?: PartOfSpeech
+  ): Promise<StudyWordResponse | null> => {
     const params = new URLSearchParams();
-    params.set('favoriteOnly', String(favoriteOnly));
+    if (deckId) params.set('deckId', String(deckId));
+    params.set('direction', direction);
     if (excludeId) params.set('excludeId', String(excludeId));
-    const response = await api.get<ApiResponse<StudyWordResponse>>(`/words/study?${params.toString()}`);
+    if (levels.length > 0) params.set('levels', levels.join(','));
+    if (tag) params.set('tag', tag);
+    if (partOfSpeech) params.set('partOfSpeech', partOfSpeech);
+    const response = await api.get<ApiResponse<StudyWordResponse>>(`/words/study?${params.toString()}`, {
+      validateStatus: (status) => status < 400 || status === 404,
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  // Возвращает null, если нет слов с подходящим примером
+  getClozeWord: async (
+    deckId?: number,
+    excludeId?: number,
+    levels: MasteryLevel[] = [],
+    tag?: string,
+    partOfSpeech?: PartOfSpeech
+  ): Promise<ClozeWordResponse | null> => {
+    const params = new URLSearchParams();
+    if (deckId) params.set('deckId', String(deckId));
+    if (excludeId) params.set('excludeId', String(excludeId));
+    if (levels.length > 0) params.set('levels', levels.join(','));
+    if (tag) params.set('tag', tag);
+    if (partOfSpeech) params.set('partOfSpeech', partOfSpeech);
+    const response = await api.get<ApiResponse<ClozeWordResponse>>(`/words/cloze?${params.toString()}`, {
+      validateStatus: (status) => status < 400 || status === 404,
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  // Возвращает null, если сейчас нечего повторять
+  getChoiceWord: async (
+    deckId?: number,
+    excludeId?: number,
+    direction: StudyDirection = 'RU_EN',
+    levels: MasteryLevel[] = [],
+    tag?: string,
+    partOfSpeech?: PartOfSpeech
+  ): Promise<MultipleChoiceResponse | null> => {
+    const params = new URLSearchParams();
+    if (deckId) params.set('deckId', String(deckId));
+    params.set('direction', direction);
+    if (excludeId) params.set('excludeId', String(excludeId));
+    if (levels.length > 0) params.set('levels', levels.join(','));
+    if (tag) params.set('tag', tag);
+    if (partOfSpeech) params.set('partOfSpeech', partOfSpeech);
+    const response = await api.get<ApiResponse<MultipleChoiceResponse>>(`/words/choice?${params.toString()}`, {
+      validateStatus: (status) => status < 400 || status === 404,
+    });
+    if (response.status === 404) {
+      return null;
+    }
     if (!response.data.success) {
       throw new Error(response.data.error);
     }
@@ -51,8 +203,32 @@ export const wordsApi = {
     return response.data.data || [];
   },
 
-  create: async (wordData: CreateWordRequest): Promise<Word> => {
-    const response = await api.post<ApiResponse<Word>>('/words', wordData);
+  // Если слово уже есть в словаре (или есть похожее без allowSimilar), возвращает найденные повторы
+  create: async (wordData: CreateWordRequest): Promise<Word | DuplicateConflict> => {
+    const response = await api.post<ApiResponse<Word | DuplicateConflict>>('/words', wordData, {
+      validateStatus: (status) => status < 400 || status === 409,
+    });
+    if (response.status === 409) {
+      return response.data.data!;
+    }
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  // Пары возможных повторов для экрана проверки
+  getDuplicates: async (): Promise<DuplicatePair[]> => {
+    const response = await api.get<ApiResponse<DuplicatePair[]>>('/words/duplicates');
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  // Слить sourceId в targetId; возвращает оставшееся слово
+  merge: async (request: MergeWordsRequest): Promise<Word> => {
+    const response = await api.post<ApiResponse<Word>>('/words/merge', request);
     if (!response.data.success) {
       throw new Error(response.data.error);
     }
@@ -74,6 +250,46 @@ export const wordsApi = {
     }
   },
 
+  bulk: async (request: BulkWordsRequest): Promise<BulkWordsResult> => {
+    const response = await api.post<ApiResponse<BulkWordsResult>>('/words/bulk', request);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  getTrash: async (): Promise<TrashedWord[]> => {
+    const response = await api.get<ApiResponse<TrashedWord[]>>('/words/trash');
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  restoreFromTrash: async (id: number): Promise<Word> => {
+    const response = await api.post<ApiResponse<Word>>(`/words/trash/${id}/restore`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  purge: async (id: number): Promise<PurgeTrashResponse> => {
+    const response = await api.delete<ApiResponse<PurgeTrashResponse>>(`/words/trash/${id}`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  emptyTrash: async (): Promise<PurgeTrashResponse> => {
+    const response = await api.delete<ApiResponse<PurgeTrashResponse>>('/words/trash');
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
   toggleFavorite: async (id: number): Promise<Word> => {
     const response = await api.patch<ApiResponse<Word>>(`/words/${id}/favorite`);
     if (!response.data.success) {
@@ -81,6 +297,135 @@ export const wordsApi = {
     }
     return response.data.data!;
   },
+
+  addExample: async (id: number, example: ExampleInput): Promise<Word> => {
+    const response = await api.post<ApiResponse<Word>>(`/words/${id}/examples`, example);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  // Передаются все примеры слова в новом порядке
+  reorderExamples: async (id: number, exampleIds: number[]): Promise<Word> => {
+    const response = await api.put<ApiResponse<Word>>(`/words/${id}/examples/order`, { exampleIds });
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  deleteExample: async (id: number, exampleId: number): Promise<Word> => {
+    const response = await api.delete<ApiResponse<Word>>(`/words/${id}/examples/${exampleId}`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  getHistory: async (id: number): Promise<WordRevision[]> => {
+    const response = await api.get<ApiResponse<WordRevision[]>>(`/words/${id}/history`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  restoreRevision: async (id: number, revisionId: number): Promise<Word> => {
+    const response = await api.post<ApiResponse<Word>>(`/words/${id}/history/${revisionId}/restore`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  getHint: async (
+    id: number,
+    type: HintType,
+    direction: Direction = 'RU_EN',
+    exercise: ExerciseType = 'TYPING',
+    // Для упражнения с пропуском — пример, из которого построен пропуск
+    exampleId?: number
+  ): Promise<HintResponse> => {
+    const params = new URLSearchParams({ type, direction, exercise });
+    if (exampleId) params.set('exampleId', String(exampleId));
+    const response = await api.get<ApiResponse<HintResponse>>(`/words/${id}/hint?${params.toString()}`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+};
+
+// Decks API
+export const decksApi = {
+  getAll: async (): Promise<DeckSummary[]> => {
+    const response = await api.get<ApiResponse<DeckSummary[]>>('/decks');
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  create: async (request: DeckRequest): Promise<DeckSummary> => {
+    const response = await api.post<ApiResponse<DeckSummary>>('/decks', request);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  update: async (id: number, request: DeckRequest): Promise<DeckSummary> => {
+    const response = await api.put<ApiResponse<DeckSummary>>(`/decks/${id}`, request);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  // Стратегии проверки ответов, которые можно задать колоде
+  getGradingStrategies: async (): Promise<GradingStrategyInfo[]> => {
+    const response = await api.get<ApiResponse<GradingStrategyInfo[]>>('/decks/grading-strategies');
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    const response = await api.delete<ApiResponse<{}>>(`/decks/${id}`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+  },
+
+  addWords: async (id: number, wordIds: number[]): Promise<DeckSummary> => {
+    const response = await api.post<ApiResponse<DeckSummary>>(`/decks/${id}/words`, { wordIds });
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  removeWord: async (id: number, wordId: number): Promise<DeckSummary> => {
+    const response = await api.delete<ApiResponse<DeckSummary>>(`/decks/${id}/words/${wordId}`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+};
+
+// Tags API
+export const tagsApi = {
+  // Метки, у которых есть слова
+  getAll: async (): Promise<TagSummary[]> => {
+    const response = await api.get<ApiResponse<TagSummary[]>>('/tags');
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
 };
 
 // Answers API
@@ -93,6 +438,30 @@ export const answersApi = {
     return response.data.data!;
   },
 
+  checkCloze: async (answerData: CheckClozeRequest): Promise<CheckAnswerResponse> => {
+    const response = await api.post<ApiResponse<CheckAnswerResponse>>('/answers/check-cloze', answerData);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  checkChoice: async (answerData: CheckChoiceRequest): Promise<CheckAnswerResponse> => {
+    const response = await api.post<ApiResponse<CheckAnswerResponse>>('/answers/check-choice', answerData);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  revealAnswer: async (revealData: RevealAnswerRequest): Promise<CheckAnswerResponse> => {
+    const response = await api.post<ApiResponse<CheckAnswerResponse>>('/answers/reveal', revealData);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
   getStats: async (): Promise<Stats> => {
     const response = await api.get<ApiResponse<Stats>>('/answers/stats');
     if (!response.data.success) {
@@ -109,3 +478,79 @@ export const answersApi = {
     return response.data.data!;
   },
 };
+
+// Sessions API
+export const sessionsApi = {
+  // Возвращает null, если под фильтры не подходит ни одно слово; при остальных ошибках
+  // бросает исключение с сообщением сервера
+  create: async (sessionData: CreateSessionRequest): Promise<StudySession | null> => {
+    const response = await api.post<ApiResponse<StudySession>>('/sessions', sessionData, {
+      validateStatus: () => true,
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.data?.success) {
+      throw new Error(response.data?.error || `Request failed with status code ${response.status}`);
+    }
+    return response.data.data!;
+  },
+
+  getById: async (id: number): Promise<StudySession> => {
+    const response = await api.get<ApiResponse<StudySession>>(`/sessions/${id}`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  getSummary: async (id: number): Promise<SessionSummary> => {
+    const response = await api.get<ApiResponse<SessionSummary>>(`/sessions/${id}/summary`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+};
+
+// Synonyms API
+export const synonymsApi = {
+  getAll: async (): Promise<SynonymGroup[]> => {
+    const response = await api.get<ApiResponse<SynonymGroup[]>>('/synonyms');
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  getSuggestions: async (): Promise<SynonymSuggestion[]> => {
+    const response = await api.get<ApiResponse<SynonymSuggestion[]>>('/synonyms/suggestions');
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  create: async (groupData: SynonymGroupRequest): Promise<SynonymGroup> => {
+    const response = await api.post<ApiResponse<SynonymGroup>>('/synonyms', groupData);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  update: async (id: number, groupData: Partial<SynonymGroupRequest>): Promise<SynonymGroup> => {
+    const response = await api.put<ApiResponse<SynonymGroup>>(`/synonyms/${id}`, groupData);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+    return response.data.data!;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    const response = await api.delete<ApiResponse<{}>>(`/synonyms/${id}`);
+    if (!response.data.success) {
+      throw new Error(response.data.error);
+    }
+  },
+};
@@ -4,6 +4,13 @@ import dotenv from 'dotenv';
 import { PrismaClient } from '@prisma/client';
 import { wordRoutes } from './routes/words';
 import { answerRoutes } from './routes/answers';
+import { sessionRoutes } from './routes/sessions';
+import { synonymRoutes } from './routes/synonyms';
+import { tagRoutes } from './routes/tags';
+import { deckRoutes } from './routes/decks';
+import { syncFavoritesDeck } from './services/decks';
+import { migrateLegacyExamples } from './services/examples';
+import { purgeExpiredWords } from './services/trash';
 
 dotenv.config();
 
@@ -13,11 +20,16 @@ const PORT = process.env.PORT || 5000;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Файл импорта слов (translations.json) больше лимита по умолчанию
+app.use(express.json({ limit: '5mb' }));
 
 // Routes
 app.use('/api/words', wordRoutes);
 app.use('/api/answers', answerRoutes);
+app.use('/api/sessions', sessionRoutes);
+app.use('/api/synonyms', synonymRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/decks', deckRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -41,6 +53,27 @@ app.use('*', (req, res) => {
   });
 });
 
+// Встроенная колода избранного создается при первом запуске и заполняется избранными словами
+syncFavoritesDeck(prisma).catch((error) => {
+  console.error('Error syncing favorites deck:', error);
+});
+
+// Примеры из старых полей exampleEn/exampleRu переносятся в таблицу примеров
+migrateLegacyExamples(prisma)
+  .then((count) => count > 0 && console.log(`Migrated examples of ${count} words`))
+  .catch((error) => {
+    console.error('Error migrating examples:', error);
+  });
+
+// Слова, срок хранения которых в корзине истек, удаляются при запуске и затем раз в сутки
+const purgeTrash = () => purgeExpiredWords(prisma)
+  .then((count) => count > 0 && console.log(`Purged ${count} words from trash`))
+  .catch((error) => {
+    console.error('Error purging trash:', error);
+  });
+purgeTrash();
+setInterval(purgeTrash, 24 * 60 * 60 * 1000);
+
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
 });
@@ -6,7 +6,26 @@ import {
   ApiResponse, 
   Answer,
   ClearAnswersResponse,
+  Direction,
+  MasteryLevel,
+  CheckClozeRequest,
+  CheckChoiceRequest,
+  RevealAnswerRequest,
+  DeckStats,
 } from '../types';
+import { clozeTargets } from '../services/cloze';
+import { findClozeExample, EXAMPLE_ORDER } from '../services/examples';
+import { parseHints } from '../services/hints';
+import { Grade, resolveGradingStrategy } from '../services/grading';
+import { nextStreak, masteryLevel } from '../services/mastery';
+import {
+  nextSchedule,
+  PASSING_QUALITY,
+  QUALITY_GAVE_UP,
+  QUALITY_SYNONYM_CREDIT,
+} from '../services/scheduler';
+import { ACTIVE_WORD } from '../services/trash';
+import { fullForm } from '../services/variants';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -14,7 +33,7 @@ const prisma = new PrismaClient();
 // Проверить ответ
 router.post('/check', async (req: Request<{}, {}, CheckAnswerRequest>, res: Response<ApiResponse<CheckAnswerResponse>>) => {
   try {
-    const { wordId, answer } = req.body;
+    const { wordId, answer, direction = 'RU_EN', sessionId, deckId, hints: rawHints } = req.body;
     
     if (!wordId || !answer) {
       return res.status(400).json({ 
@@ -22,10 +41,26 @@ router.post('/check', async (req: Request<{}, {}, CheckAnswerRequest>, res: Resp
         error: 'Word ID and answer are required' 
       });
     }
+
+    if (!['RU_EN', 'EN_RU'].includes(direction)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid direction' 
+      });
+    }
+    
+    const hints = parseHints(rawHints);
+    if (!hints) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid hint type' 
+      });
+    }
     
-    // Получить слово
-    const word = await prisma.word.findUnique({
-      where: { id: wordId }
+    // Получить слово вместе с принятыми вариантами ответа
+    const word = await prisma.word.findFirst({
+      where: { id: wordId, ...ACTIVE_WORD },
+      include: { variants: true }
     });
     
     if (!word) {
@@ -34,112 +69,283 @@ router.post('/check', async (req: Request<{}, {}, CheckAnswerRequest>, res: Resp
         error: 'Word not found' 
       });
     }
-    
-    const userAnswer = answer.toLowerCase().trim();
-    const correctAnswer = word.english.toLowerCase().trim();
-    
-    // Проверить точное совпадение
-    const isCorrect = userAnswer === correctAnswer;
-    
-    // Проверить, является ли ответ синонимом (другое англ. слово с тем же русским переводом)
-    let isSynonym = false;
-    let synonymWord: { id: number } | null = null;
-    if (!isCorrect) {
-      synonymWord = await prisma.word.findFirst({
-        where: {
-          russian: word.russian,
-          english: userAnswer,
-        }
+
+    if (sessionId && !(await prisma.session.findUnique({ where: { id: sessionId } }))) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Session not found' 
       });
-      isSynonym = Boolean(synonymWord);
     }
-    
-    // Проверить частичное совпадение
-    let isPartial = false;
-    let hint = '';
-    
-    if (!isCorrect && !isSynonym && userAnswer.length > 0) {
-      // Проверить, является ли ответ началом правильного слова
-      if (correctAnswer.startsWith(userAnswer)) {
-        isPartial = true;
-        hint = `Правильно! Продолжайте... (${correctAnswer.length - userAnswer.length} букв осталось)`;
-      }
-      // Проверить, содержит ли правильный ответ введенный текст
-      else if (correctAnswer.includes(userAnswer)) {
-        isPartial = true;
-        hint = 'Частично правильно! Попробуйте еще раз';
-      }
-      // Проверить похожесть (например, опечатки)
-      else if (levenshteinDistance(userAnswer, correctAnswer) <= 2) {
-        isPartial = true;
-        hint = 'Близко! Проверьте правописание';
-      }
+
+    // Колода, из которой изучается слово, может задать свою стратегию проверки
+    const strategy = await resolveGradingStrategy(prisma, 'TYPING', { deckId, sessionId });
+    if (!strategy) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Deck not found' 
+      });
     }
     
+    // Слова из той же группы синонимов: ответ для них считается синонимом
+    const synonyms = word.synonymGroupId === null ? [] : await prisma.word.findMany({
+      where: { ...ACTIVE_WORD, synonymGroupId: word.synonymGroupId, id: { not: word.id } },
+      include: { variants: true }
+    });
+
+    const grade = strategy.grade({ answer, word, direction, hints, synonyms });
+    const userAnswer = answer.toLowerCase().trim();
+    const isCorrect = grade.verdict === 'CORRECT';
+    const isSynonym = grade.verdict === 'SYNONYM';
+    const { quality } = grade;
+
     // Сохранить ответ в базу данных
     await prisma.answer.create({
       data: {
         wordId,
         answer: userAnswer,
         isCorrect,
-        isSynonym
+        isSynonym,
+        direction,
+        hints,
+        quality,
+        sessionId
       }
     });
 
+    // Обновить расписание повторений слова в этом направлении
+    if (quality !== null) {
+      await applyReview(wordId, direction, quality);
+    }
+
+    if (sessionId) {
+      await advanceSession(sessionId, wordId, quality);
+    }
+
     // Если введено слово-синоним, пометить его как изученное
-    if (isSynonym && synonymWord) {
+    if (isSynonym && grade.synonymWordId) {
+      const synonymWordId = grade.synonymWordId;
       const existingCorrect = await prisma.answer.findFirst({
-        where: { wordId: synonymWord.id, isCorrect: true }
+        where: { wordId: synonymWordId, isCorrect: true, direction }
       });
       if (!existingCorrect) {
         await prisma.answer.create({
           data: {
-            wordId: synonymWord.id,
+            wordId: synonymWordId,
             answer: userAnswer,
-            isCorrect: true
+            isCorrect: true,
+            direction,
+            quality: QUALITY_SYNONYM_CREDIT
           }
         });
+        await applyReview(synonymWordId, direction, QUALITY_SYNONYM_CREDIT);
       }
     }
 
-    // Посчитать количество правильных ответов за сегодня
-    const startOfDay = new Date();
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date();
-    endOfDay.setHours(23, 59, 59, 999);
+    const response: CheckAnswerResponse = {
+      ...gradeResponse(grade),
+      ...(await getProgressCounters())
+    };
+    
+    return res.json({ success: true, data: response });
+  } catch (error) {
+    console.error('Error checking answer:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to check answer' 
+    });
+  }
+});
 
-    const todayCorrectAnswers = await prisma.answer.count({
-      where: {
-        isCorrect: true,
-        createdAt: {
-          gte: startOfDay,
-          lte: endOfDay
-        }
+// Проверить ответ в упражнении "заполните пропуск"
+// Ожидается словоформа из примера (например, "proceeded with"), а не словарная форма
+router.post('/check-cloze', async (req: Request<{}, {}, CheckClozeRequest>, res: Response<ApiResponse<CheckAnswerResponse>>) => {
+  try {
+    const { wordId, answer, exampleId, sessionId, deckId, hints: rawHints } = req.body;
+    
+    if (!wordId || !answer) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Word ID and answer are required' 
+      });
+    }
+    const hints = parseHints(rawHints);
+    if (!hints) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid hint type' 
+      });
+    }
+    
+    const word = await prisma.word.findFirst({
+      where: { id: wordId, ...ACTIVE_WORD },
+      include: { examples: EXAMPLE_ORDER, variants: true }
+    });
+    
+    if (!word) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found' 
+      });
+    }
+
+    if (sessionId && !(await prisma.session.findUnique({ where: { id: sessionId } }))) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Session not found' 
+      });
+    }
+
+    // Колода, из которой изучается слово, может задать свою стратегию проверки
+    const strategy = await resolveGradingStrategy(prisma, 'CLOZE', { deckId, sessionId });
+    if (!strategy) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Deck not found' 
+      });
+    }
+
+    // Ответ проверяется по примеру, из которого был построен пропуск
+    const clozeExample = findClozeExample(word.examples, clozeTargets(word), exampleId);
+    if (!clozeExample) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Word example does not contain the word' 
+      });
+    }
+    
+    const grade = strategy.grade({
+      answer,
+      word: { ...word, exampleEn: clozeExample.example.english },
+      direction: 'RU_EN',
+      hints
+    });
+    const userAnswer = answer.toLowerCase().trim();
+    const isCorrect = grade.verdict === 'CORRECT';
+    const { quality } = grade;
+
+    await prisma.answer.create({
+      data: {
+        wordId,
+        answer: userAnswer,
+        isCorrect,
+        direction: 'RU_EN',
+        exercise: 'CLOZE',
+        hints,
+        quality,
+        sessionId
       }
     });
 
-    const totalCorrectAnswers = await prisma.answer.count({
-      where: {
-        isCorrect: true,
+    if (quality !== null) {
+      await applyReview(wordId, 'RU_EN', quality);
+    }
+
+    if (sessionId) {
+      await advanceSession(sessionId, wordId, quality);
+    }
+
+    const response: CheckAnswerResponse = {
+      ...gradeResponse(grade),
+      ...(await getProgressCounters())
+    };
+    
+    return res.json({ success: true, data: response });
+  } catch (error) {
+    console.error('Error checking cloze answer:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to check answer' 
+    });
+  }
+});
+
+// Проверить ответ в упражнении с выбором варианта
+// Такие ответы засчитываются слабее введенных вручную (см. QUALITY_CHOICE_CORRECT)
+router.post('/check-choice', async (req: Request<{}, {}, CheckChoiceRequest>, res: Response<ApiResponse<CheckAnswerResponse>>) => {
+  try {
+    const { wordId, answer, direction = 'RU_EN', sessionId, deckId, hints: rawHints } = req.body;
+    
+    if (!wordId || !answer) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Word ID and answer are required' 
+      });
+    }
+
+    if (!['RU_EN', 'EN_RU'].includes(direction)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid direction' 
+      });
+    }
+    const hints = parseHints(rawHints);
+    if (!hints) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid hint type' 
+      });
+    }
+    
+    const word = await prisma.word.findFirst({
+      where: { id: wordId, ...ACTIVE_WORD }
+    });
+    
+    if (!word) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found' 
+      });
+    }
+
+    if (sessionId && !(await prisma.session.findUnique({ where: { id: sessionId } }))) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Session not found' 
+      });
+    }
+
+    // Колода, из которой изучается слово, может задать свою стратегию проверки
+    const strategy = await resolveGradingStrategy(prisma, 'MULTIPLE_CHOICE', { deckId, sessionId });
+    if (!strategy) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Deck not found' 
+      });
+    }
+
+    const grade = strategy.grade({ answer, word, direction, hints });
+    const isCorrect = grade.verdict === 'CORRECT';
+    const { quality } = grade;
+
+    await prisma.answer.create({
+      data: {
+        wordId,
+        answer: answer.trim(),
+        isCorrect,
+        direction,
+        exercise: 'MULTIPLE_CHOICE',
+        hints,
+        quality,
+        sessionId
       }
     });
 
-    const totalWords = await prisma.word.count();
+    if (quality !== null) {
+      await applyReview(wordId, direction, quality);
+    }
+
+    if (sessionId) {
+      await advanceSession(sessionId, wordId, quality);
+    }
 
     const response: CheckAnswerResponse = {
-      isCorrect,
-      isPartial,
-      hint: isSynonym ? 'Это синоним. Попробуйте другое слово.' : (isPartial ? hint : undefined),
-      isSynonym: isSynonym || undefined,
-      correctAnswer: word.english,
-      todayCorrectAnswers,
-      totalCorrectAnswers,
-      totalWords
+      ...gradeResponse(grade),
+      ...(await getProgressCounters())
     };
     
     return res.json({ success: true, data: response });
   } catch (error) {
-    console.error('Error checking answer:', error);
+    console.error('Error checking choice answer:', error);
     return res.status(500).json({ 
       success: false, 
       error: 'Failed to check answer' 
@@ -147,6 +353,109 @@ router.post('/check', async (req: Request<{}, {}, CheckAnswerRequest>, res: Resp
   }
 });
 
+// Записать подсмотренный ответ или "не знаю" как неудачную попытку
+// Учитывается в точности и расписании так же, как неверный ответ
+router.post('/reveal', async (req: Request<{}, {}, RevealAnswerRequest>, res: Response<ApiResponse<CheckAnswerResponse>>) => {
+  try {
+    const { wordId, kind, direction = 'RU_EN', exercise = 'TYPING', exampleId, sessionId, hints: rawHints } = req.body;
+
+    if (!wordId) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Word ID is required' 
+      });
+    }
+
+    if (!['REVEAL', 'GIVE_UP'].includes(kind)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid answer kind' 
+      });
+    }
+
+    if (!['RU_EN', 'EN_RU'].includes(direction)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid direction' 
+      });
+    }
+
+    if (!['TYPING', 'CLOZE', 'MULTIPLE_CHOICE'].includes(exercise)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid exercise' 
+      });
+    }
+    const hints = parseHints(rawHints);
+    if (!hints) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid hint type' 
+      });
+    }
+    
+    const word = await prisma.word.findFirst({
+      where: { id: wordId, ...ACTIVE_WORD },
+      include: { examples: EXAMPLE_ORDER, variants: true }
+    });
+    
+    if (!word) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found' 
+      });
+    }
+
+    if (sessionId && !(await prisma.session.findUnique({ where: { id: sessionId } }))) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Session not found' 
+      });
+    }
+
+    // Упражнение с пропуском всегда в направлении RU_EN
+    const reviewDirection = exercise === 'CLOZE' ? 'RU_EN' : direction;
+    const correctAnswer = exercise === 'CLOZE'
+      ? findClozeExample(word.examples, clozeTargets(word), exampleId)?.cloze.answer ?? fullForm(word.english)
+      : reviewDirection === 'EN_RU' ? word.russian : word.english;
+
+    await prisma.answer.create({
+      data: {
+        wordId,
+        answer: '',
+        isCorrect: false,
+        direction: reviewDirection,
+        exercise,
+        kind,
+        hints,
+        quality: QUALITY_GAVE_UP,
+        sessionId
+      }
+    });
+
+    await applyReview(wordId, reviewDirection, QUALITY_GAVE_UP);
+
+    if (sessionId) {
+      await advanceSession(sessionId, wordId, QUALITY_GAVE_UP);
+    }
+
+    const response: CheckAnswerResponse = {
+      isCorrect: false,
+      isPartial: false,
+      correctAnswer,
+      ...(await getProgressCounters())
+    };
+    
+    return res.json({ success: true, data: response });
+  } catch (error) {
+    console.error('Error recording revealed answer:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to record revealed answer' 
+    });
+  }
+});
+
 // Получить статистику ответов для слова
 router.get('/word/:wordId', async (req: Request, res: Response<ApiResponse<Answer[]>>) => {
   try {
@@ -167,27 +476,48 @@ router.get('/word/:wordId', async (req: Request, res: Response<ApiResponse<Answe
   }
 });
 
-// Получить общую статистику
+// Получить общую статистику (слова в корзине и их ответы не учитываются)
 router.get('/stats', async (req: Request, res: Response<ApiResponse<any>>) => {
   try {
-    const totalAnswers = await prisma.answer.count();
+    const totalAnswers = await prisma.answer.count({
+      where: { word: ACTIVE_WORD }
+    });
     const correctAnswers = await prisma.answer.count({
-      where: { isCorrect: true }
+      where: { isCorrect: true, word: ACTIVE_WORD }
     });
     
-    const totalWords = await prisma.word.count();
+    const totalWords = await prisma.word.count({ where: ACTIVE_WORD });
+    // Изученным считается слово, освоенное (MASTERED) хотя бы в одном направлении
     const learnedWords = await prisma.word.count({
       where: {
-        answers: {
+        ...ACTIVE_WORD,
+        progress: {
           some: {
-            isCorrect: true
+            mastery: 'MASTERED'
           }
         }
       }
     });
     
+    // Уровни владения отслеживаются отдельно для каждого направления
+    const progressByLevel = await prisma.wordProgress.groupBy({
+      by: ['direction', 'mastery'],
+      where: { word: ACTIVE_WORD },
+      _count: { _all: true }
+    });
+
+    const masteryBreakdown = {} as Record<Direction, Record<MasteryLevel, number>>;
+    for (const direction of ['RU_EN', 'EN_RU'] as const) {
+      const levels = { NEW: 0, LEARNING: 0, FAMILIAR: 0, MASTERED: 0 };
+      for (const group of progressByLevel.filter((group) => group.direction === direction)) {
+        levels[group.mastery] = group._count._all;
+      }
+      levels.NEW = totalWords - levels.LEARNING - levels.FAMILIAR - levels.MASTERED;
+      masteryBreakdown[direction] = levels;
+    }
+    
     const favoriteWords = await prisma.word.count({
-      where: { isFavorite: true }
+      where: { ...ACTIVE_WORD, isFavorite: true }
     });
     
     const stats = {
@@ -196,7 +526,13 @@ router.get('/stats', async (req: Request, res: Response<ApiResponse<any>>) => {
       accuracy: totalAnswers > 0 ? Math.round((correctAnswers / totalAnswers) * 100) : 0,
       totalWords,
       learnedWords,
-      favoriteWords
+      learnedByDirection: {
+        RU_EN: masteryBreakdown.RU_EN.MASTERED,
+        EN_RU: masteryBreakdown.EN_RU.MASTERED
+      },
+      masteryBreakdown,
+      favoriteWords,
+      decks: await getDeckStats()
     };
     
     return res.json({ success: true, data: stats });
@@ -209,10 +545,13 @@ router.get('/stats', async (req: Request, res: Response<ApiResponse<any>>) => {
   }
 });
 
-// Очистить все ответы
+// Очистить все ответы (вместе с расписанием повторений и уровнями владения)
 router.delete('/', async (req: Request, res: Response<ApiResponse<ClearAnswersResponse>>) => {
   try {
-    const result = await prisma.answer.deleteMany();
+    const [result] = await prisma.$transaction([
+      prisma.answer.deleteMany(),
+      prisma.wordProgress.deleteMany(),
+    ]);
     return res.json({ success: true, data: { deletedCount: result.count } });
   } catch (error) {
     console.error('Error clearing answers:', error);
@@ -223,30 +562,163 @@ router.delete('/', async (req: Request, res: Response<ApiResponse<ClearAnswersRe
   }
 });
 
-// Функция для вычисления расстояния Левенштейна
-function levenshteinDistance(str1: string, str2: string): number {
-  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-  
-  for (let i = 0; i <= str1.length; i++) {
-    matrix[0][i] = i;
+// Ответ клиенту по вердикту стратегии проверки (без счетчиков прогресса)
+function gradeResponse(grade: Grade): Omit<CheckAnswerResponse, 'todayCorrectAnswers' | 'totalCorrectAnswers' | 'totalWords'> {
+  const isPartial = grade.verdict === 'PARTIAL';
+  const isSynonym = grade.verdict === 'SYNONYM';
+  return {
+    isCorrect: grade.verdict === 'CORRECT',
+    isPartial,
+    hint: isPartial || isSynonym ? grade.hint : undefined,
+    isSynonym: isSynonym || undefined,
+    diff: grade.diff,
+    matchedVariant: grade.matchedVariant,
+    matchedMeaning: grade.matchedMeaning,
+    normalization: grade.normalization,
+    correctAnswer: grade.correctAnswer
+  };
+}
+
+// Статистика по каждой колоде. Слово считается к повторению, если срок наступил хотя бы в одном направлении
+async function getDeckStats(): Promise<DeckStats[]> {
+  const decks = await prisma.deck.findMany({
+    orderBy: [{ builtIn: 'desc' }, { name: 'asc' }],
+    include: { words: { where: ACTIVE_WORD, select: { id: true } } }
+  });
+  const wordIds = [...new Set(decks.flatMap((deck) => deck.words.map((word) => word.id)))];
+
+  const [answerGroups, masteredProgress, dueProgress] = await Promise.all([
+    prisma.answer.groupBy({
+      by: ['wordId', 'isCorrect'],
+      where: { wordId: { in: wordIds } },
+      _count: { _all: true }
+    }),
+    prisma.wordProgress.findMany({
+      where: { wordId: { in: wordIds }, mastery: 'MASTERED' },
+      select: { wordId: true },
+      distinct: ['wordId']
+    }),
+    prisma.wordProgress.findMany({
+      where: { wordId: { in: wordIds }, dueAt: { lte: new Date() } },
+      select: { wordId: true },
+      distinct: ['wordId']
+    }),
+  ]);
+  const masteredIds = new Set(masteredProgress.map((progress) => progress.wordId));
+  const dueIds = new Set(dueProgress.map((progress) => progress.wordId));
+
+  return decks.map(({ words, ...deck }) => {
+    const ids = new Set(words.map((word) => word.id));
+    const groups = answerGroups.filter((group) => ids.has(group.wordId));
+    const totalAnswers = groups.reduce((sum, group) => sum + group._count._all, 0);
+    const correctAnswers = groups
+      .filter((group) => group.isCorrect)
+      .reduce((sum, group) => sum + group._count._all, 0);
+    return {
+      id: deck.id,
+      name: deck.name,
+      builtIn: deck.builtIn,
+      totalWords: ids.size,
+      learnedWords: [...ids].filter((id) => masteredIds.has(id)).length,
+      dueWords: [...ids].filter((id) => dueIds.has(id)).length,
+      totalAnswers,
+      correctAnswers,
+      accuracy: totalAnswers > 0 ? Math.round((correctAnswers / totalAnswers) * 100) : 0
+    };
+  });
+}
+
+// Счетчики прогресса, которые возвращаются после каждой проверки ответа
+async function getProgressCounters(): Promise<Pick<CheckAnswerResponse, 'todayCorrectAnswers' | 'totalCorrectAnswers' | 'totalWords'>> {
+  // Посчитать количество правильных ответов за сегодня
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+  const endOfDay = new Date();
+  endOfDay.setHours(23, 59, 59, 999);
+
+  const todayCorrectAnswers = await prisma.answer.count({
+    where: {
+      isCorrect: true,
+      word: ACTIVE_WORD,
+      createdAt: {
+        gte: startOfDay,
+        lte: endOfDay
+      }
+    }
+  });
+
+  const totalCorrectAnswers = await prisma.answer.count({
+    where: {
+      isCorrect: true,
+      word: ACTIVE_WORD,
+    }
+  });
+
+  const totalWords = await prisma.word.count({ where: ACTIVE_WORD });
+
+  return { todayCorrectAnswers, totalCorrectAnswers, totalWords };
+}
+
+// Пересчитать интервал повторения и уровень владения словом по качеству ответа
+async function applyReview(wordId: number, direction: Direction, quality: number): Promise<void> {
+  const current = await prisma.wordProgress.findUnique({
+    where: { wordId_direction: { wordId, direction } }
+  });
+  const now = new Date();
+  const next = {
+    ...nextSchedule(current, quality, now),
+    ...nextStreak(current, quality, now),
+  };
+  const data = { ...next, mastery: masteryLevel(next.streak), lastReviewedAt: now };
+
+  await prisma.wordProgress.upsert({
+    where: { wordId_direction: { wordId, direction } },
+    create: { wordId, direction, ...data },
+    update: data
+  });
+}
+
+// Продвинуть очередь сессии: верный ответ завершает слово, ошибка переносит его в конец очереди.
+// Частичные ответы и синонимы (quality === null) очередь не меняют
+async function advanceSession(sessionId: number, wordId: number, quality: number | null): Promise<void> {
+  if (quality === null) {
+    return;
   }
-  
-  for (let j = 0; j <= str2.length; j++) {
-    matrix[j][0] = j;
+
+  const item = await prisma.sessionItem.findUnique({
+    where: { sessionId_wordId: { sessionId, wordId } }
+  });
+  if (!item || item.completed) {
+    return;
   }
-  
-  for (let j = 1; j <= str2.length; j++) {
-    for (let i = 1; i <= str1.length; i++) {
-      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-      matrix[j][i] = Math.min(
-        matrix[j][i - 1] + 1,
-        matrix[j - 1][i] + 1,
-        matrix[j - 1][i - 1] + indicator
-      );
+
+  if (quality >= PASSING_QUALITY) {
+    await prisma.sessionItem.update({
+      where: { id: item.id },
+      data: { completed: true }
+    });
+
+    // Слова из корзины в сессии не показываются и ее завершению не мешают
+    const remaining = await prisma.sessionItem.count({
+      where: { sessionId, completed: false, word: ACTIVE_WORD }
+    });
+    if (remaining === 0) {
+      await prisma.session.update({
+        where: { id: sessionId },
+        data: { finishedAt: new Date() }
+      });
     }
+    return;
   }
-  
-  return matrix[str2.length][str1.length];
+
+  const last = await prisma.sessionItem.aggregate({
+    where: { sessionId },
+    _max: { position: true }
+  });
+  await prisma.sessionItem.update({
+    where: { id: item.id },
+    data: { position: (last._max.position ?? item.position) + 1 }
+  });
 }
 
 export { router as answerRoutes };
@@ -0,0 +1,339 @@
+import { Router, Request, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  ApiResponse,
+  DeckSummary,
+  DeckRequest,
+  DeckWordsRequest,
+  GradingStrategyInfo,
+} from '../types';
+import { syncFavoritesDeck } from '../services/decks';
+import { gradingStrategyInfos, gradingStrategyNames } from '../services/grading';
+import { ACTIVE_WORD } from '../services/trash';
+import { findSnapshots, recordUpdates, revisionAuthor } from '../services/revisions';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Количество слов колоды (без слов в корзине)
+const DECK_COUNT = { _count: { select: { words: { where: ACTIVE_WORD } } } } as const;
+
+// Получить все колоды с количеством слов (встроенная колода первой)
+router.get('/', async (req: Request, res: Response<ApiResponse<DeckSummary[]>>) => {
+  try {
+    const decks = await prisma.deck.findMany({
+      orderBy: [{ builtIn: 'desc' }, { name: 'asc' }],
+      include: DECK_COUNT
+    });
+
+    return res.json({ success: true, data: decks.map(toSummary) });
+  } catch (error) {
+    console.error('Error fetching decks:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch decks'
+    });
+  }
+});
+
+// Получить стратегии проверки ответов, которые можно задать колоде
+router.get('/grading-strategies', (req: Request, res: Response<ApiResponse<GradingStrategyInfo[]>>) => {
+  return res.json({ success: true, data: gradingStrategyInfos() });
+});
+
+// Получить колоду по ID
+router.get('/:id', async (req: Request, res: Response<ApiResponse<DeckSummary>>) => {
+  try {
+    const deck = await findDeck(parseInt(req.params.id));
+
+    if (!deck) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deck not found'
+      });
+    }
+
+    return res.json({ success: true, data: deck });
+  } catch (error) {
+    console.error('Error fetching deck:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch deck'
+    });
+  }
+});
+
+// Создать колоду
+router.post('/', async (req: Request<{}, {}, DeckRequest>, res: Response<ApiResponse<DeckSummary>>) => {
+  try {
+    const name = req.body.name?.trim();
+    const { wordIds = [], gradingStrategy = null } = req.body;
+
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Deck name is required'
+      });
+    }
+
+    if (!isGradingStrategy(gradingStrategy)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Unknown grading strategy'
+      });
+    }
+
+    const validationError = await validateWordIds(wordIds);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (await prisma.deck.findUnique({ where: { name } })) {
+      return res.status(409).json({
+        success: false,
+        error: 'Deck already exists'
+      });
+    }
+
+    const deck = await prisma.deck.create({
+      data: {
+        name,
+        gradingStrategy,
+        words: { connect: wordIds.map((id) => ({ id })) }
+      }
+    });
+
+    return res.status(201).json({ success: true, data: (await findDeck(deck.id))! });
+  } catch (error) {
+    console.error('Error creating deck:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create deck'
+    });
+  }
+});
+
+// Переименовать колоду, заменить ее состав и/или стратегию проверки ответов.
+// Состав встроенной колоды меняется через признак isFavorite у слов
+router.put('/:id', async (req: Request<{ id: string }, {}, DeckRequest>, res: Response<ApiResponse<DeckSummary>>) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { wordIds, gradingStrategy } = req.body;
+    const name = req.body.name?.trim();
+
+    const existing = await prisma.deck.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deck not found'
+      });
+    }
+
+    if (req.body.name !== undefined && !name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Deck name is required'
+      });
+    }
+
+    if (existing.builtIn && name !== undefined && name !== existing.name) {
+      return res.status(400).json({
+        success: false,
+        error: 'Built-in deck cannot be renamed'
+      });
+    }
+
+    if (gradingStrategy !== undefined && !isGradingStrategy(gradingStrategy)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Unknown grading strategy'
+      });
+    }
+
+    if (wordIds !== undefined) {
+      const validationError = await validateWordIds(wordIds);
+      if (validationError) {
+        return res.status(400).json({ success: false, error: validationError });
+      }
+    }
+
+    if (name && name !== existing.name && await prisma.deck.findUnique({ where: { name } })) {
+      return res.status(409).json({
+        success: false,
+        error: 'Deck already exists'
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (existing.builtIn && wordIds) {
+        const favorites = await tx.word.findMany({ where: { isFavorite: true }, select: { id: true } });
+        const before = await findSnapshots(tx, [...favorites.map(({ id }) => id), ...wordIds]);
+        await tx.word.updateMany({ where: { isFavorite: true }, data: { isFavorite: false } });
+        await tx.word.updateMany({ where: { id: { in: wordIds } }, data: { isFavorite: true } });
+        await recordUpdates(tx, before, revisionAuthor(req));
+        await syncFavoritesDeck(tx);
+      }
+      await tx.deck.update({
+        where: { id },
+        data: {
+          ...(name && { name }),
+          ...(wordIds && !existing.builtIn && { words: { set: wordIds.map((wordId) => ({ id: wordId })) } }),
+          ...(gradingStrategy !== undefined && { gradingStrategy })
+        }
+      });
+    });
+
+    return res.json({ success: true, data: (await findDeck(id))! });
+  } catch (error) {
+    console.error('Error updating deck:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update deck'
+    });
+  }
+});
+
+// Добавить слова в колоду
+router.post('/:id/words', async (req: Request<{ id: string }, {}, DeckWordsRequest>, res: Response<ApiResponse<DeckSummary>>) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { wordIds } = req.body;
+
+    const existing = await prisma.deck.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deck not found'
+      });
+    }
+
+    const validationError = await validateWordIds(wordIds);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    await updateDeckWords(existing, wordIds, true, revisionAuthor(req));
+
+    return res.json({ success: true, data: (await findDeck(id))! });
+  } catch (error) {
+    console.error('Error adding words to deck:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to add words to deck'
+    });
+  }
+});
+
+// Убрать слово из колоды (само слово остается)
+router.delete('/:id/words/:wordId', async (req: Request, res: Response<ApiResponse<DeckSummary>>) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const existing = await prisma.deck.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deck not found'
+      });
+    }
+
+    await updateDeckWords(existing, [parseInt(req.params.wordId)], false, revisionAuthor(req));
+
+    return res.json({ success: true, data: (await findDeck(id))! });
+  } catch (error) {
+    console.error('Error removing word from deck:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to remove word from deck'
+    });
+  }
+});
+
+// Удалить колоду (сами слова остаются)
+router.delete('/:id', async (req: Request, res: Response<ApiResponse<{}>>) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const existing = await prisma.deck.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Deck not found'
+      });
+    }
+
+    if (existing.builtIn) {
+      return res.status(400).json({
+        success: false,
+        error: 'Built-in deck cannot be deleted'
+      });
+    }
+
+    await prisma.deck.delete({ where: { id } });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting deck:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete deck'
+    });
+  }
+});
+
+type DeckWithCount = Prisma.DeckGetPayload<{ include: typeof DECK_COUNT }>;
+
+function toSummary({ _count, ...deck }: DeckWithCount): DeckSummary {
+  return { ...deck, wordCount: _count.words };
+}
+
+async function findDeck(id: number): Promise<DeckSummary | null> {
+  const deck = await prisma.deck.findUnique({
+    where: { id },
+    include: DECK_COUNT
+  });
+  return deck && toSummary(deck);
+}
+
+// Добавить слова в колоду или убрать их. Для встроенной колоды меняется признак isFavorite
+async function updateDeckWords(
+  deck: { id: number; builtIn: boolean },
+  wordIds: number[],
+  add: boolean,
+  author: string
+): Promise<void> {
+  if (deck.builtIn) {
+    await prisma.$transaction(async (tx) => {
+      const before = await findSnapshots(tx, wordIds);
+      await tx.word.updateMany({ where: { id: { in: wordIds } }, data: { isFavorite: add } });
+      await recordUpdates(tx, before, author);
+      await syncFavoritesDeck(tx);
+    });
+    return;
+  }
+  const words = wordIds.map((id) => ({ id }));
+  await prisma.deck.update({
+    where: { id: deck.id },
+    data: { words: add ? { connect: words } : { disconnect: words } }
+  });
+}
+
+// Стратегия колоды: null (по типу упражнения) или имя зарегистрированной стратегии
+function isGradingStrategy(value: unknown): value is string | null {
+  return value === null || (typeof value === 'string' && gradingStrategyNames().includes(value));
+}
+
+// Проверить список слов колоды. Возвращает текст ошибки или null
+async function validateWordIds(wordIds: unknown): Promise<string | null> {
+  if (!Array.isArray(wordIds) || !wordIds.every((id) => Number.isInteger(id))) {
+    return 'Word IDs are required';
+  }
+  const uniqueIds = new Set(wordIds);
+  const found = await prisma.word.count({ where: { ...ACTIVE_WORD, id: { in: [...uniqueIds] } } });
+  if (found !== uniqueIds.size) {
+    return 'Some words were not found';
+  }
+  return null;
+}
+
+export { router as deckRoutes };
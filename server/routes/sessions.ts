@@ -0,0 +1,235 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import {
+  ApiResponse,
+  CreateSessionRequest,
+  StudySession,
+  SessionSummary,
+  Word,
+} from '../types';
+import { RECENT_MISTAKES_DAYS, shuffle } from '../services/distractors';
+import { MASTERY_LEVELS } from '../services/mastery';
+import { masteryLevelWhere, wordFilterWhere } from '../services/filters';
+import { ACTIVE_WORD } from '../services/trash';
+import { pickExampleId, EXAMPLE_ORDER } from '../services/examples';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+const DEFAULT_SESSION_SIZE = 20;
+const MAX_SESSION_SIZE = 100;
+
+// Начать сессию: выбрать N слов по фильтрам
+// Порядок: просроченные (самое просроченное первым), затем новые, затем остальные по дате повторения
+router.post('/', async (req: Request<{}, {}, CreateSessionRequest>, res: Response<ApiResponse<StudySession>>) => {
+  try {
+    const {
+      size = DEFAULT_SESSION_SIZE,
+      direction = 'RU_EN',
+      favoriteOnly = false,
+      deckId,
+      newOnly = false,
+      failedRecently = false,
+      levels = [],
+    } = req.body;
+
+    if (!Number.isInteger(size) || size < 1 || size > MAX_SESSION_SIZE) {
+      return res.status(400).json({
+        success: false,
+        error: `Session size must be between 1 and ${MAX_SESSION_SIZE}`
+      });
+    }
+
+    if (!['RU_EN', 'EN_RU'].includes(direction)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid direction'
+      });
+    }
+
+    if (!Array.isArray(levels) || !levels.every((level) => MASTERY_LEVELS.includes(level))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid level'
+      });
+    }
+
+    if (deckId !== undefined && !(Number.isInteger(deckId) && await prisma.deck.findUnique({ where: { id: deckId } }))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid deck'
+      });
+    }
+
+    const whereClause = wordFilterWhere({ deckId, favorite: favoriteOnly || undefined });
+
+    if (newOnly) {
+      whereClause.progress = { none: { direction } };
+    }
+
+    if (failedRecently) {
+      const since = new Date(Date.now() - RECENT_MISTAKES_DAYS * 24 * 60 * 60 * 1000);
+      whereClause.answers = { some: { isCorrect: false, createdAt: { gte: since } } };
+    }
+
+    // Фильтр по уровню владения словом в выбранном направлении
+    if (levels.length > 0) {
+      whereClause.AND = [masteryLevelWhere(levels, direction)];
+    }
+
+    const candidates = await prisma.word.findMany({
+      where: whereClause,
+      select: {
+        id: true,
+        progress: {
+          where: { direction },
+          select: { dueAt: true }
+        }
+      }
+    });
+
+    if (candidates.length === 0) {
+      return res.status(404).json({ success: false, error: 'No words match the session filters' });
+    }
+
+    const now = new Date();
+    const scheduled = candidates
+      .filter((word) => word.progress.length > 0)
+      .sort((a, b) => a.progress[0].dueAt.getTime() - b.progress[0].dueAt.getTime());
+    const due = scheduled.filter((word) => word.progress[0].dueAt <= now);
+    const notDue = scheduled.filter((word) => word.progress[0].dueAt > now);
+    const fresh = shuffle(candidates.filter((word) => word.progress.length === 0));
+
+    const wordIds = [...due, ...fresh, ...notDue].slice(0, size).map((word) => word.id);
+
+    const session = await prisma.session.create({
+      data: {
+        size: wordIds.length,
+        direction,
+        favoriteOnly,
+        deckId,
+        newOnly,
+        failedRecently,
+        levels,
+        items: {
+          create: wordIds.map((wordId, position) => ({ wordId, position }))
+        }
+      }
+    });
+
+    return res.status(201).json({ success: true, data: (await buildSessionState(session.id))! });
+  } catch (error) {
+    console.error('Error creating session:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create session'
+    });
+  }
+});
+
+// Получить состояние сессии и текущее слово
+router.get('/:id', async (req: Request, res: Response<ApiResponse<StudySession>>) => {
+  try {
+    const { id } = req.params;
+    const session = await buildSessionState(parseInt(id));
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+    }
+
+    return res.json({ success: true, data: session });
+  } catch (error) {
+    console.error('Error fetching session:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch session'
+    });
+  }
+});
+
+// Итоги сессии: точность, затраченное время и слова с ошибками
+router.get('/:id/summary', async (req: Request, res: Response<ApiResponse<SessionSummary>>) => {
+  try {
+    const { id } = req.params;
+    const session = await prisma.session.findUnique({
+      where: { id: parseInt(id) },
+      include: {
+        answers: {
+          orderBy: { createdAt: 'asc' },
+          include: { word: true }
+        }
+      }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+    }
+
+    const totalAnswers = session.answers.length;
+    const correctAnswers = session.answers.filter((answer) => answer.isCorrect).length;
+
+    // Время считается до завершения сессии или до последнего ответа, если она не завершена
+    const lastAnswer = session.answers[session.answers.length - 1];
+    const endedAt = session.finishedAt ?? lastAnswer?.createdAt ?? session.startedAt;
+
+    const missedWords = new Map<number, Word>();
+    for (const answer of session.answers) {
+      if (!answer.isCorrect) {
+        missedWords.set(answer.wordId, answer.word);
+      }
+    }
+
+    const summary: SessionSummary = {
+      sessionId: session.id,
+      size: session.size,
+      totalAnswers,
+      correctAnswers,
+      accuracy: totalAnswers > 0 ? Math.round((correctAnswers / totalAnswers) * 100) : 0,
+      timeSpentSeconds: Math.round((endedAt.getTime() - session.startedAt.getTime()) / 1000),
+      missedWords: [...missedWords.values()]
+    };
+
+    return res.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error fetching session summary:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch session summary'
+    });
+  }
+});
+
+// Собрать состояние сессии: прогресс и первое незавершенное слово в очереди
+async function buildSessionState(sessionId: number): Promise<StudySession | null> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId }
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  const [completedCount, currentItem] = await Promise.all([
+    prisma.sessionItem.count({ where: { sessionId, completed: true } }),
+    prisma.sessionItem.findFirst({
+      where: { sessionId, completed: false, word: ACTIVE_WORD },
+      orderBy: { position: 'asc' },
+      include: { word: { include: { examples: EXAMPLE_ORDER, tags: true } } }
+    }),
+  ]);
+
+  return {
+    ...session,
+    completedCount,
+    currentWord: currentItem?.word ?? null,
+    currentExampleId: currentItem ? await pickExampleId(prisma, currentItem.word) : null
+  };
+}
+
+export { router as sessionRoutes };
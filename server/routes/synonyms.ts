@@ -0,0 +1,205 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import {
+  ApiResponse,
+  SynonymGroup,
+  SynonymGroupRequest,
+  SynonymSuggestion,
+} from '../types';
+import { deleteSmallGroups, MIN_GROUP_SIZE, suggestSynonymGroups } from '../services/synonyms';
+import { ACTIVE_WORD } from '../services/trash';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Получить все группы синонимов
+router.get('/', async (req: Request, res: Response<ApiResponse<SynonymGroup[]>>) => {
+  try {
+    const groups = await prisma.synonymGroup.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: { words: { where: ACTIVE_WORD, orderBy: { english: 'asc' } } }
+    });
+
+    return res.json({ success: true, data: groups });
+  } catch (error) {
+    console.error('Error fetching synonym groups:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch synonym groups'
+    });
+  }
+});
+
+// Предложить группы по пересекающимся значениям русского перевода
+router.get('/suggestions', async (req: Request, res: Response<ApiResponse<SynonymSuggestion[]>>) => {
+  try {
+    const words = await prisma.word.findMany({
+      where: ACTIVE_WORD,
+      orderBy: { english: 'asc' }
+    });
+    const wordsById = new Map(words.map((word) => [word.id, word]));
+
+    const suggestions = suggestSynonymGroups(words).map((group) => ({
+      words: group.wordIds.map((id) => wordsById.get(id)!),
+      sharedMeanings: group.sharedMeanings
+    }));
+
+    return res.json({ success: true, data: suggestions });
+  } catch (error) {
+    console.error('Error suggesting synonym groups:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to suggest synonym groups'
+    });
+  }
+});
+
+// Получить группу по ID
+router.get('/:id', async (req: Request, res: Response<ApiResponse<SynonymGroup>>) => {
+  try {
+    const { id } = req.params;
+    const group = await prisma.synonymGroup.findUnique({
+      where: { id: parseInt(id) },
+      include: { words: { where: ACTIVE_WORD, orderBy: { english: 'asc' } } }
+    });
+
+    if (!group) {
+      return res.status(404).json({
+        success: false,
+        error: 'Synonym group not found'
+      });
+    }
+
+    return res.json({ success: true, data: group });
+  } catch (error) {
+    console.error('Error fetching synonym group:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch synonym group'
+    });
+  }
+});
+
+// Создать группу. Слово может состоять только в одной группе,
+// поэтому переданные слова переносятся из своих прежних групп
+router.post('/', async (req: Request<{}, {}, SynonymGroupRequest>, res: Response<ApiResponse<SynonymGroup>>) => {
+  try {
+    const { name, wordIds } = req.body;
+
+    const validationError = await validateWordIds(wordIds);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const group = await prisma.$transaction(async (tx) => {
+      const created = await tx.synonymGroup.create({
+        data: {
+          name: name?.trim() || null,
+          words: { connect: wordIds.map((id) => ({ id })) }
+        }
+      });
+      await deleteSmallGroups(tx);
+      return tx.synonymGroup.findUniqueOrThrow({
+        where: { id: created.id },
+        include: { words: { where: ACTIVE_WORD, orderBy: { english: 'asc' } } }
+      });
+    });
+
+    return res.status(201).json({ success: true, data: group });
+  } catch (error) {
+    console.error('Error creating synonym group:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create synonym group'
+    });
+  }
+});
+
+// Обновить название и/или состав группы (переданный список слов заменяет текущий)
+router.put('/:id', async (req: Request<{ id: string }, {}, Partial<SynonymGroupRequest>>, res: Response<ApiResponse<SynonymGroup>>) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { name, wordIds } = req.body;
+
+    const existing = Number.isInteger(id) ? await prisma.synonymGroup.findUnique({ where: { id } }) : null;
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Synonym group not found'
+      });
+    }
+
+    if (wordIds !== undefined) {
+      const validationError = await validateWordIds(wordIds);
+      if (validationError) {
+        return res.status(400).json({ success: false, error: validationError });
+      }
+    }
+
+    const group = await prisma.$transaction(async (tx) => {
+      await tx.synonymGroup.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name: name?.trim() || null }),
+          ...(wordIds && { words: { set: wordIds.map((wordId) => ({ id: wordId })) } })
+        }
+      });
+      await deleteSmallGroups(tx);
+      return tx.synonymGroup.findUniqueOrThrow({
+        where: { id },
+        include: { words: { where: ACTIVE_WORD, orderBy: { english: 'asc' } } }
+      });
+    });
+
+    return res.json({ success: true, data: group });
+  } catch (error) {
+    console.error('Error updating synonym group:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update synonym group'
+    });
+  }
+});
+
+// Удалить группу (сами слова остаются)
+router.delete('/:id', async (req: Request, res: Response<ApiResponse<{}>>) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    const existing = Number.isInteger(id) ? await prisma.synonymGroup.findUnique({ where: { id } }) : null;
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Synonym group not found'
+      });
+    }
+
+    await prisma.synonymGroup.delete({ where: { id } });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting synonym group:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete synonym group'
+    });
+  }
+});
+
+// Проверить список слов группы. Возвращает текст ошибки или null
+async function validateWordIds(wordIds: unknown): Promise<string | null> {
+  if (!Array.isArray(wordIds) || !wordIds.every((id) => Number.isInteger(id))) {
+    return 'Word IDs are required';
+  }
+  const uniqueIds = new Set(wordIds);
+  if (uniqueIds.size < MIN_GROUP_SIZE) {
+    return `A synonym group needs at least ${MIN_GROUP_SIZE} words`;
+  }
+  const found = await prisma.word.count({ where: { ...ACTIVE_WORD, id: { in: [...uniqueIds] } } });
+  if (found !== uniqueIds.size) {
+    return 'Some words were not found';
+  }
+  return null;
+}
+
+export { router as synonymRoutes };
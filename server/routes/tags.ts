@@ -0,0 +1,31 @@
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ApiResponse, TagSummary } from '../types';
+import { ACTIVE_WORD } from '../services/trash';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Получить метки, у которых есть слова, с количеством слов
+router.get('/', async (req: Request, res: Response<ApiResponse<TagSummary[]>>) => {
+  try {
+    const tags = await prisma.tag.findMany({
+      where: { words: { some: ACTIVE_WORD } },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { words: { where: ACTIVE_WORD } } } }
+    });
+
+    return res.json({
+      success: true,
+      data: tags.map(({ id, name, _count }) => ({ id, name, wordCount: _count.words }))
+    });
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch tags'
+    });
+  }
+});
+
+export { router as tagRoutes };
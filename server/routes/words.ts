@@ -1,144 +1,1256 @@
 import { Router, Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { 
   CreateWordRequest, 
   UpdateWordRequest, 
   ApiResponse, 
   Word,
   StudyWordResponse, 
+  Direction,
+  StudyDirection,
+  ClozeWordResponse,
+  MultipleChoiceResponse,
+  MasteryLevel,
+  HintType,
+  HintResponse,
+  ExerciseType,
+  WordPage,
+  WordSort,
+  SortOrder,
+  ImportResult,
+  TableImportRequest,
+  WordColumn,
+  DuplicateConflict,
+  DuplicatePair,
+  MergeField,
+  MergeWordsRequest,
+  ExampleInput,
+  ExampleOrderRequest,
+  WordRevision,
+  TrashedWord,
+  PurgeTrashResponse,
+  WordFilter,
+  BulkWordsRequest,
+  BulkWordsResult,
 } from '../types';
+import {
+  createExamples,
+  findClozeExample,
+  parseExamples,
+  pickExampleId,
+  rotateClozeExample,
+  EXAMPLE_ORDER,
+} from '../services/examples';
+import { clozeTargets } from '../services/cloze';
+import { parseMasteryLevels } from '../services/mastery';
+import { buildHint, HINT_PENALTIES, HINT_TYPES } from '../services/hints';
+import { fullForm, parseVariants } from '../services/variants';
+import { parseNormalizationRules } from '../services/normalize';
+import { connectTags, normalizeTagName, parseTags } from '../services/tags';
+import { parseDeckId, syncFavoritesDeck } from '../services/decks';
+import { wordFilterWhere } from '../services/filters';
+import {
+  exportTable,
+  parseColumnMapping,
+  parseReversoEntries,
+  parseTable,
+  planImport,
+  ImportCandidate,
+  WORD_COLUMNS,
+} from '../services/importer';
+import { findDuplicatePairs, findDuplicates } from '../services/duplicates';
+import {
+  applySnapshot,
+  findSnapshot,
+  findSnapshots,
+  recordRevision,
+  recordRevisions,
+  revisionAuthor,
+  restoreTarget,
+  toRevision,
+  toSnapshot,
+  SNAPSHOT_INCLUDE,
+  RevisionInput,
+} from '../services/revisions';
+import { deleteSmallGroups } from '../services/synonyms';
+import { ACTIVE_WORD, purgeDate, purgeWords } from '../services/trash';
+import { applyBulkAction, BULK_ACTIONS, BULK_TIMEOUT_MS } from '../services/bulk';
+import { parsePartOfSpeech, parseWordDetails } from '../services/details';
+import {
+  pickDistractors,
+  shuffle,
+  DEFAULT_CHOICE_OPTIONS,
+  MIN_CHOICE_OPTIONS,
+  MAX_CHOICE_OPTIONS,
+  RECENT_MISTAKES_DAYS,
+} from '../services/distractors';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-// Получить все слова
-router.get('/', async (req: Request, res: Response<ApiResponse<Word[]>>) => {
+// Сколько кандидатов просматривать при поиске слова для упражнения с пропуском
+const CLOZE_CANDIDATES = 50;
+
+// Размер страницы списка слов
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const WORD_SORTS: WordSort[] = ['alphabetical', 'date', 'accuracy', 'lastAnswered'];
+// Порядок по умолчанию: по алфавиту от A, новые и недавно отвеченные первыми, слабые слова первыми
+const DEFAULT_SORT_ORDERS: Record<WordSort, SortOrder> = {
+  alphabetical: 'asc',
+  date: 'desc',
+  accuracy: 'asc',
+  lastAnswered: 'desc',
+};
+// Связанные данные, которые возвращаются вместе со словом
+const WORD_INCLUDE = { variants: true, examples: EXAMPLE_ORDER, tags: true, decks: true } as const;
+// Поля слова, которые меняются напрямую при обновлении; остальные ключи тела (id, deletedAt,
+// synonymGroupId и т. п.) игнорируются. Варианты, примеры, метки и сведения о слове проверяются отдельно
+const EDITABLE_FIELDS = ['english', 'russian', 'isFavorite', 'normalization', 'sourceText', 'sourceUrl'] as const;
+// Поля, которые при слиянии можно взять из сливаемого слова
+const MERGE_FIELDS: MergeField[] = ['english', 'russian', 'transcription', 'notes', 'partOfSpeech', 'register'];
+
+// Получить страницу списка слов с поиском, фильтрами и сортировкой.
+// Пагинация по курсору: cursor — id последнего слова предыдущей страницы
+router.get('/', async (req: Request, res: Response<ApiResponse<WordPage>>) => {
+  try {
+    const { search, sort = 'date', order: rawOrder, favorite, learned, deckId: rawDeckId, tag, cursor: rawCursor, limit: rawLimit } = req.query as {
+      search?: string;
+      sort?: WordSort;
+      order?: SortOrder;
+      favorite?: string;
+      learned?: string;
+      deckId?: string;
+      tag?: string;
+      cursor?: string;
+      limit?: string;
+    };
+
+    if (!WORD_SORTS.includes(sort)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid sort' 
+      });
+    }
+
+    if (rawOrder !== undefined && !['asc', 'desc'].includes(rawOrder)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid order' 
+      });
+    }
+
+    const limit = rawLimit === undefined ? DEFAULT_PAGE_SIZE : Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid limit' 
+      });
+    }
+
+    const cursor = rawCursor === undefined ? null : Number(rawCursor);
+    if (cursor !== null && !Number.isInteger(cursor)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid cursor' 
+      });
+    }
+
+    if ([favorite, learned].some((value) => value !== undefined && !['true', 'false'].includes(value))) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid filter' 
+      });
+    }
+
+    const deckId = parseDeckId(rawDeckId);
+    if (deckId === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid deck' 
+      });
+    }
+
+    const order = rawOrder ?? DEFAULT_SORT_ORDERS[sort];
+    const whereClause = wordFilterWhere({
+      search,
+      favorite: favorite === undefined ? undefined : favorite === 'true',
+      learned: learned === undefined ? undefined : learned === 'true',
+      deckId,
+      tag
+    });
+
+    const total = await prisma.word.count({ where: whereClause });
+
+    let words: Word[];
+    if (sort === 'alphabetical' || sort === 'date') {
+      words = await prisma.word.findMany({
+        where: whereClause,
+        orderBy: [{ [sort === 'alphabetical' ? 'english' : 'createdAt']: order }, { id: order }],
+        take: limit + 1,
+        ...(cursor !== null ? { cursor: { id: cursor }, skip: 1 } : {}),
+        include: WORD_INCLUDE
+      });
+    } else {
+      // Точность и дата последнего ответа считаются по ответам, поэтому порядок строится в памяти
+      const candidates = await prisma.word.findMany({ where: whereClause, select: { id: true } });
+      const stats = await getAnswerStats(candidates.map((candidate) => candidate.id));
+      const orderedIds = sortByAnswerStats(candidates.map((candidate) => candidate.id), stats, sort, order);
+      const position = cursor === null ? 0 : orderedIds.indexOf(cursor) + 1;
+      // Неизвестный курсор — страница пустая
+      const pageIds = cursor !== null && position === 0 ? [] : orderedIds.slice(position, position + limit + 1);
+      const pageWords = await prisma.word.findMany({
+        where: { id: { in: pageIds } },
+        include: WORD_INCLUDE
+      });
+      words = pageIds.map((id) => pageWords.find((word) => word.id === id)!);
+    }
+
+    const page = words.slice(0, limit);
+    const stats = await getAnswerStats(page.map((word) => word.id));
+
+    return res.json({
+      success: true,
+      data: {
+        words: page.map((word) => ({ ...word, ...(stats.get(word.id) ?? { accuracy: null, lastAnsweredAt: null }) })),
+        total,
+        nextCursor: words.length > limit ? page[page.length - 1].id : null
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching words:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to fetch words' 
+    });
+  }
+});
+
+// Получить слово для изучения
+// Сначала отдаются слова, срок повторения которых наступил (самое просроченное первым),
+// затем новые слова, которые еще ни разу не повторялись в выбранном направлении
+router.get('/study', async (req: Request, res: Response<ApiResponse<StudyWordResponse>>) => {
+  try {
+    const { deckId: rawDeckId, tag, partOfSpeech: rawPartOfSpeech, excludeId, direction = 'RU_EN', levels: rawLevels } = req.query as {
+      deckId?: string;
+      tag?: string;
+      partOfSpeech?: string;
+      excludeId?: string;
+      direction?: StudyDirection;
+      levels?: string;
+    };
+
+    if (!['RU_EN', 'EN_RU', 'MIXED'].includes(direction)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid direction' 
+      });
+    }
+
+    const levels = parseMasteryLevels(rawLevels);
+    if (levels === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid level' 
+      });
+    }
+
+    const deckId = parseDeckId(rawDeckId);
+    if (deckId === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid deck' 
+      });
+    }
+
+    const partOfSpeech = parsePartOfSpeech(rawPartOfSpeech);
+    if (partOfSpeech === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid part of speech' 
+      });
+    }
+    
+    const whereClause = wordFilterWhere({ deckId, tag, partOfSpeech });
+    
+    // Условие исключения текущего слова (если передан excludeId)
+    const excludeCondition = excludeId ? { id: { not: parseInt(excludeId) } } : {};
+
+    // В смешанном режиме учитываются оба направления
+    const directions: Direction[] = direction === 'MIXED' ? ['RU_EN', 'EN_RU'] : [direction];
+
+    // Пул еще не выученных слов: уровень ниже MASTERED хотя бы в одном из направлений
+    const whereUnlearned = {
+      ...whereClause,
+      ...excludeCondition,
+      progress: {
+        none: {
+          mastery: 'MASTERED',
+          direction: { in: directions }
+        }
+      }
+    } as const;
+
+    const [unlearnedCount, { dueCount, newCount }] = await Promise.all([
+      prisma.word.count({ where: whereUnlearned }),
+      countStudyQueue(whereClause, directions, levels),
+    ]);
+
+    const next = await pickStudyWord({ ...whereClause, ...excludeCondition }, directions, levels);
+    if (next) {
+      const exampleId = await pickExampleId(prisma, { id: next.word.id, examples: next.word.examples ?? [] });
+      return res.json({
+        success: true,
+        data: { word: next.word, direction: next.direction, exampleId, unlearnedCount, dueCount, newCount }
+      });
+    }
+
+    return res.status(404).json({ success: false, error: 'No words due for review' });
+  } catch (error) {
+    console.error('Error fetching study word:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to fetch study word' 
+    });
+  }
+});
+
+// Получить упражнение "заполните пропуск" по английскому примеру
+// Слова выбираются как в /study (направление RU_EN), но пропускаются те,
+// в примере которых не удалось найти целевую фразу
+router.get('/cloze', async (req: Request, res: Response<ApiResponse<ClozeWordResponse>>) => {
+  try {
+    const { deckId: rawDeckId, tag, partOfSpeech: rawPartOfSpeech, excludeId, levels: rawLevels } = req.query as {
+      deckId?: string;
+      tag?: string;
+      partOfSpeech?: string;
+      excludeId?: string;
+      levels?: string;
+    };
+
+    const levels = parseMasteryLevels(rawLevels);
+    if (levels === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid level' 
+      });
+    }
+
+    const deckId = parseDeckId(rawDeckId);
+    if (deckId === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid deck' 
+      });
+    }
+
+    const partOfSpeech = parsePartOfSpeech(rawPartOfSpeech);
+    if (partOfSpeech === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid part of speech' 
+      });
+    }
+    
+    const whereClause = wordFilterWhere({ deckId, tag, partOfSpeech });
+    
+    const excludeCondition = excludeId ? { id: { not: parseInt(excludeId) } } : {};
+    const { dueCount, newCount } = await countStudyQueue(whereClause, ['RU_EN'], levels);
+    const { reviewLevels, includeNew } = splitLevels(levels);
+
+    // Просроченные слова по порядку, затем случайная выборка новых
+    const dueProgress = reviewLevels.length > 0 ? await prisma.wordProgress.findMany({
+      where: {
+        direction: 'RU_EN',
+        dueAt: { lte: new Date() },
+        mastery: { in: reviewLevels },
+        word: { ...whereClause, ...excludeCondition }
+      },
+      orderBy: { dueAt: 'asc' },
+      take: CLOZE_CANDIDATES,
+      include: { word: { include: WORD_INCLUDE } }
+    }) : [];
+
+    const whereNew = { ...whereClause, ...excludeCondition, progress: { none: { direction: 'RU_EN' as const } } };
+    const totalNew = includeNew ? await prisma.word.count({ where: whereNew }) : 0;
+    const newWords = totalNew > 0 ? await prisma.word.findMany({
+      where: whereNew,
+      skip: Math.floor(Math.random() * Math.max(0, totalNew - CLOZE_CANDIDATES)),
+      take: CLOZE_CANDIDATES,
+      include: WORD_INCLUDE
+    }) : [];
+    newWords.sort(() => Math.random() - 0.5);
+
+    for (const word of [...dueProgress.map((progress) => progress.word), ...newWords]) {
+      if (!rotateClozeExample(word.examples, clozeTargets(word), 0)) {
+        continue;
+      }
+      const answerCount = await prisma.answer.count({ where: { wordId: word.id } });
+      const { example, cloze } = rotateClozeExample(word.examples, clozeTargets(word), answerCount)!;
+      return res.json({
+        success: true,
+        data: { word, cloze: cloze.text, blanks: cloze.blanks, exampleId: example.id, dueCount, newCount }
+      });
+    }
+
+    return res.status(404).json({ success: false, error: 'No words available for cloze exercise' });
+  } catch (error) {
+    console.error('Error fetching cloze word:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to fetch cloze word' 
+    });
+  }
+});
+
+// Получить слово для упражнения с выбором ответа из нескольких вариантов
+// Неправильные варианты берутся из словаря: похожие по написанию, той же длины
+// или недавно отвеченные неверно
+router.get('/choice', async (req: Request, res: Response<ApiResponse<MultipleChoiceResponse>>) => {
+  try {
+    const { deckId: rawDeckId, tag, partOfSpeech: rawPartOfSpeech, excludeId, direction = 'RU_EN', options, levels: rawLevels } = req.query as {
+      deckId?: string;
+      tag?: string;
+      partOfSpeech?: string;
+      excludeId?: string;
+      direction?: StudyDirection;
+      options?: string;
+      levels?: string;
+    };
+
+    if (!['RU_EN', 'EN_RU', 'MIXED'].includes(direction)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid direction' 
+      });
+    }
+
+    const levels = parseMasteryLevels(rawLevels);
+    if (levels === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid level' 
+      });
+    }
+
+    const deckId = parseDeckId(rawDeckId);
+    if (deckId === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid deck' 
+      });
+    }
+
+    const partOfSpeech = parsePartOfSpeech(rawPartOfSpeech);
+    if (partOfSpeech === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid part of speech' 
+      });
+    }
+
+    const optionCount = options ? parseInt(options) : DEFAULT_CHOICE_OPTIONS;
+    if (isNaN(optionCount) || optionCount < MIN_CHOICE_OPTIONS || optionCount > MAX_CHOICE_OPTIONS) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Options must be between ${MIN_CHOICE_OPTIONS} and ${MAX_CHOICE_OPTIONS}` 
+      });
+    }
+    
+    const whereClause = wordFilterWhere({ deckId, tag, partOfSpeech });
+    
+    const excludeCondition = excludeId ? { id: { not: parseInt(excludeId) } } : {};
+    const directions: Direction[] = direction === 'MIXED' ? ['RU_EN', 'EN_RU'] : [direction];
+
+    const [{ dueCount, newCount }, next] = await Promise.all([
+      countStudyQueue(whereClause, directions, levels),
+      pickStudyWord({ ...whereClause, ...excludeCondition }, directions, levels),
+    ]);
+    if (!next) {
+      return res.status(404).json({ success: false, error: 'No words due for review' });
+    }
+
+    const isReverse = next.direction === 'EN_RU';
+    const correctOption = isReverse ? next.word.russian : next.word.english;
+
+    // Слова с тем же переводом и синонимы исключаются: они тоже были бы правильным ответом
+    const since = new Date(Date.now() - RECENT_MISTAKES_DAYS * 24 * 60 * 60 * 1000);
+    const groupId = next.word.synonymGroupId;
+    const [vocabulary, recentMistakes] = await Promise.all([
+      prisma.word.findMany({
+        where: {
+          ...ACTIVE_WORD,
+          id: { not: next.word.id },
+          NOT: isReverse ? { english: next.word.english } : { russian: next.word.russian },
+          ...(groupId !== null && { OR: [{ synonymGroupId: null }, { synonymGroupId: { not: groupId } }] })
+        },
+        select: { id: true, english: true, russian: true }
+      }),
+      prisma.answer.findMany({
+        where: { isCorrect: false, createdAt: { gte: since } },
+        select: { wordId: true },
+        distinct: ['wordId']
+      }),
+    ]);
+
+    const recentlyWrongIds = new Set(recentMistakes.map((mistake) => mistake.wordId));
+    const distractors = pickDistractors(
+      correctOption,
+      vocabulary.map((word) => ({
+        text: isReverse ? word.russian : word.english,
+        recentlyWrong: recentlyWrongIds.has(word.id)
+      })),
+      optionCount - 1
+    );
+
+    if (distractors.length < MIN_CHOICE_OPTIONS - 1) {
+      return res.status(404).json({ success: false, error: 'Not enough words for multiple choice' });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        word: next.word,
+        direction: next.direction,
+        options: shuffle([correctOption, ...distractors]),
+        exampleId: await pickExampleId(prisma, { id: next.word.id, examples: next.word.examples ?? [] }),
+        dueCount,
+        newCount
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching multiple choice word:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to fetch multiple choice word' 
+    });
+  }
+});
+
+// Выгрузить все слова в CSV или TSV (совместим с импортом Anki).
+// columns — поля через запятую в нужном порядке (по умолчанию все)
+router.get('/export', async (req: Request, res: Response) => {
+  try {
+    const { format = 'csv', columns: rawColumns } = req.query as { format?: string; columns?: string };
+
+    if (format !== 'csv' && format !== 'tsv') {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid format' 
+      });
+    }
+
+    const columns = rawColumns ? parseColumnMapping(rawColumns.split(',')) : WORD_COLUMNS;
+    if (!columns || columns.some((column) => column === null)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid column mapping' 
+      });
+    }
+
+    const words = await prisma.word.findMany({
+      where: ACTIVE_WORD,
+      orderBy: { id: 'asc' },
+      include: { examples: EXAMPLE_ORDER, tags: true }
+    });
+
+    res.type(format === 'csv' ? 'text/csv' : 'text/tab-separated-values');
+    res.attachment(`words.${format}`);
+    return res.send(exportTable(
+      words.map((word) => ({ ...word, tags: word.tags.map((wordTag) => wordTag.name) })),
+      format,
+      columns as WordColumn[]
+    ));
+  } catch (error) {
+    console.error('Error exporting words:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to export words' 
+    });
+  }
+});
+
+// Возможные повторы в словаре: совпадающие после нормализации и отличающиеся на опечатку
+router.get('/duplicates', async (req: Request, res: Response<ApiResponse<DuplicatePair[]>>) => {
   try {
     const words = await prisma.word.findMany({
+      where: ACTIVE_WORD,
+      orderBy: { id: 'asc' },
+      include: WORD_INCLUDE
+    });
+    
+    return res.json({ success: true, data: findDuplicatePairs(words) });
+  } catch (error) {
+    console.error('Error finding duplicates:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to find duplicates' 
+    });
+  }
+});
+
+// Получить избранные слова
+router.get('/favorites', async (req: Request, res: Response<ApiResponse<Word[]>>) => {
+  try {
+    const words = await prisma.word.findMany({
+      where: { ...ACTIVE_WORD, isFavorite: true },
       orderBy: { createdAt: 'desc' }
     });
     
     return res.json({ success: true, data: words });
   } catch (error) {
-    console.error('Error fetching words:', error);
+    console.error('Error fetching favorite words:', error);
     return res.status(500).json({ 
       success: false, 
-      error: 'Failed to fetch words' 
+      error: 'Failed to fetch favorite words' 
     });
   }
 });
 
-// Получить слово для изучения (без правильного ответа)
-router.get('/study', async (req: Request, res: Response<ApiResponse<StudyWordResponse>>) => {
+// Получить слова в корзине (сначала удаленные последними) с датой окончательного удаления
+router.get('/trash', async (req: Request, res: Response<ApiResponse<TrashedWord[]>>) => {
+  try {
+    const words = await prisma.word.findMany({
+      where: { deletedAt: { not: null } },
+      orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+      include: WORD_INCLUDE
+    });
+
+    return res.json({
+      success: true,
+      data: words.map((word) => ({ ...word, deletedAt: word.deletedAt!, purgeAt: purgeDate(word.deletedAt!) }))
+    });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to fetch trash' 
+    });
+  }
+});
+
+// Вернуть слово из корзины
+router.post('/trash/:id/restore', async (req: Request, res: Response<ApiResponse<Word>>) => {
+  try {
+    const wordId = parseInt(req.params.id);
+    const trashed = await prisma.word.findFirst({ where: { id: wordId, deletedAt: { not: null } } });
+
+    if (!trashed) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found in trash' 
+      });
+    }
+
+    const word = await prisma.$transaction(async (tx) => {
+      const restored = await tx.word.update({
+        where: { id: wordId },
+        data: { deletedAt: null },
+        include: WORD_INCLUDE
+      });
+      await recordRevision(tx, { wordId, action: 'RESTORE', author: revisionAuthor(req), before: null, after: toSnapshot(restored) });
+      return restored;
+    });
+
+    return res.json({ success: true, data: word });
+  } catch (error) {
+    console.error('Error restoring word from trash:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to restore word' 
+    });
+  }
+});
+
+// Окончательно удалить слово из корзины (вместе с ответами; в истории правок слово остается)
+router.delete('/trash/:id', async (req: Request, res: Response<ApiResponse<PurgeTrashResponse>>) => {
+  try {
+    const deletedCount = await purgeWords(prisma, { wordIds: [parseInt(req.params.id)] });
+
+    if (deletedCount === 0) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found in trash' 
+      });
+    }
+
+    return res.json({ success: true, data: { deletedCount } });
+  } catch (error) {
+    console.error('Error purging word:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to purge word' 
+    });
+  }
+});
+
+// Очистить корзину
+router.delete('/trash', async (req: Request, res: Response<ApiResponse<PurgeTrashResponse>>) => {
+  try {
+    return res.json({ success: true, data: { deletedCount: await purgeWords(prisma) } });
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to empty trash' 
+    });
+  }
+});
+
+// Получить подсказку к слову до ответа. Использованные подсказки клиент передает
+// вместе с ответом, и они снижают его оценку
+router.get('/:id/hint', async (req: Request, res: Response<ApiResponse<HintResponse>>) => {
   try {
-    const { favoriteOnly, excludeId } = req.query as { favoriteOnly?: string; excludeId?: string };
+    const { id } = req.params;
+    const { type, direction = 'RU_EN', exercise = 'TYPING', exampleId } = req.query as {
+      type?: HintType;
+      direction?: Direction;
+      exercise?: ExerciseType;
+      // Пример, из которого построен пропуск
+      exampleId?: string;
+    };
+
+    if (!type || !HINT_TYPES.includes(type)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid hint type' 
+      });
+    }
+
+    if (!['RU_EN', 'EN_RU'].includes(direction)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid direction' 
+      });
+    }
+
+    if (!['TYPING', 'CLOZE', 'MULTIPLE_CHOICE'].includes(exercise)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid exercise' 
+      });
+    }
+
+    const word = await prisma.word.findFirst({
+      where: { id: parseInt(id), ...ACTIVE_WORD },
+      include: { examples: EXAMPLE_ORDER, variants: true }
+    });
     
-    let whereClause: any = {};
+    if (!word) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found' 
+      });
+    }
+
+    // В упражнении с пропуском подсказка строится по словоформе из примера,
+    // иначе — по полной форме ответа без скобок необязательных частей
+    const target = exercise === 'CLOZE'
+      ? findClozeExample(word.examples, clozeTargets(word), Number(exampleId))?.cloze.answer ?? fullForm(word.english)
+      : fullForm(direction === 'EN_RU' ? word.russian : word.english);
+
+    return res.json({
+      success: true,
+      data: { type, hint: buildHint(type, target, word), penalty: HINT_PENALTIES[type] }
+    });
+  } catch (error) {
+    console.error('Error building hint:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to build hint' 
+    });
+  }
+});
+
+// История правок слова, сначала последние. Доступна и для удаленного слова
+router.get('/:id/history', async (req: Request, res: Response<ApiResponse<WordRevision[]>>) => {
+  try {
+    const revisions = await prisma.wordRevision.findMany({
+      where: { wordId: parseInt(req.params.id) },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    });
+
+    return res.json({ success: true, data: revisions.map(toRevision) });
+  } catch (error) {
+    console.error('Error fetching word history:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to fetch word history' 
+    });
+  }
+});
+
+// Вернуть слово к состоянию после правки (для удаления — к состоянию перед ним).
+// Удаленное слово создается заново; само восстановление тоже записывается в историю
+router.post('/:id/history/:revisionId/restore', async (req: Request, res: Response<ApiResponse<Word>>) => {
+  try {
+    const wordId = parseInt(req.params.id);
+    const row = await prisma.wordRevision.findUnique({ where: { id: parseInt(req.params.revisionId) } });
+
+    if (!row || row.wordId !== wordId) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Revision not found' 
+      });
+    }
+
+    const target = restoreTarget(toRevision(row));
+    if (!target) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Revision has no word state to restore' 
+      });
+    }
+
+    const word = await prisma.$transaction(async (tx) => {
+      // Слово из корзины восстанавливается вместе с ответами; для истории его состояние до восстановления — пустое
+      const current = await tx.word.findUnique({ where: { id: wordId }, include: SNAPSHOT_INCLUDE });
+      const before = current && !current.deletedAt ? toSnapshot(current) : null;
+      await applySnapshot(tx, wordId, target, current !== null);
+      await recordRevision(tx, {
+        wordId,
+        action: 'RESTORE',
+        author: revisionAuthor(req),
+        before,
+        after: await findSnapshot(tx, wordId)
+      });
+      await syncFavoritesDeck(tx);
+      return tx.word.findUniqueOrThrow({ where: { id: wordId }, include: WORD_INCLUDE });
+    });
+
+    return res.json({ success: true, data: word });
+  } catch (error) {
+    console.error('Error restoring word revision:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to restore word revision' 
+    });
+  }
+});
+
+// Получить слово по ID
+router.get('/:id', async (req: Request, res: Response<ApiResponse<Word>>) => {
+  try {
+    const { id } = req.params;
+    const word = await prisma.word.findFirst({
+      where: { id: parseInt(id), ...ACTIVE_WORD },
+      include: WORD_INCLUDE
+    });
+    
+    if (!word) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found' 
+      });
+    }
     
-    if (favoriteOnly === 'true') {
-      whereClause.isFavorite = true;
+    return res.json({ success: true, data: word });
+  } catch (error) {
+    console.error('Error fetching word:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to fetch word' 
+    });
+  }
+});
+
+// Импортировать слова. format=reverso (по умолчанию): тело — экспорт переводов Reverso (массив записей);
+// format=csv|tsv: тело — TableImportRequest с содержимым файла и сопоставлением столбцов.
+// С dryRun=true только возвращает план: что будет добавлено, обновлено и пропущено
+router.post('/import', async (req: Request, res: Response<ApiResponse<ImportResult>>) => {
+  try {
+    const { format = 'reverso', dryRun } = req.query as { format?: string; dryRun?: string };
+
+    let candidates: ImportCandidate[] | null;
+    if (format === 'reverso') {
+      candidates = parseReversoEntries(req.body);
+      if (!candidates) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Import file must be an array of translations' 
+        });
+      }
+    } else if (format === 'csv' || format === 'tsv') {
+      const { content, columns: rawColumns, header } = req.body as TableImportRequest;
+      if (typeof content !== 'string') {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'File content is required' 
+        });
+      }
+      const columns = rawColumns === undefined ? undefined : parseColumnMapping(rawColumns);
+      if (columns === null) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Invalid column mapping' 
+        });
+      }
+      candidates = parseTable(content, format, { columns, header: Boolean(header) });
+      if (!candidates) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Column mapping must include english and russian once' 
+        });
+      }
+    } else {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid format' 
+      });
+    }
+
+    const existingWords = await prisma.word.findMany({
+      where: ACTIVE_WORD,
+      select: {
+        id: true,
+        english: true,
+        russian: true,
+        examples: { ...EXAMPLE_ORDER, select: { english: true, russian: true } },
+        isFavorite: true,
+        sourceText: true,
+        sourceUrl: true,
+        tags: { select: { name: true } }
+      }
+    });
+    const plan = planImport(
+      candidates,
+      existingWords.map((word) => ({ ...word, tags: word.tags.map((wordTag) => wordTag.name) }))
+    );
+
+    if (dryRun !== 'true') {
+      const author = revisionAuthor(req);
+      // Слова сохраняются вместе с историей правок в одной транзакции.
+      // Слова создаются по одному: createMany не создает связи с метками и примеры
+      await prisma.$transaction(async (tx) => {
+        const updatedBefore = await findSnapshots(tx, plan.update.map(({ id }) => id));
+        const revisions: RevisionInput[] = [];
+
+        for (const { tags, examples, ...data } of plan.add) {
+          const word = await tx.word.create({
+            data: { ...data, examples: createExamples(examples), tags: connectTags(tags) },
+            include: SNAPSHOT_INCLUDE
+          });
+          revisions.push({ wordId: word.id, action: 'CREATE', author, before: null, after: toSnapshot(word) });
+        }
+        for (const { id, data: { tags, examples, ...data } } of plan.update) {
+          const word = await tx.word.update({
+            where: { id },
+            data: {
+              ...data,
+              // В плане полный список примеров: прежние примеры идут в нем первыми
+              ...(examples && { examples: { deleteMany: {}, ...createExamples(examples) } }),
+              ...(tags && { tags: connectTags(tags) })
+            },
+            include: SNAPSHOT_INCLUDE
+          });
+          revisions.push({ wordId: id, action: 'UPDATE', author, before: updatedBefore.get(id) ?? null, after: toSnapshot(word) });
+        }
+
+        await recordRevisions(tx, revisions);
+        await syncFavoritesDeck(tx);
+      }, { timeout: BULK_TIMEOUT_MS });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        dryRun: dryRun === 'true',
+        added: plan.add.length,
+        updated: plan.update.length,
+        skipped: plan.items.filter((item) => item.action === 'SKIP').length,
+        errors: plan.items.filter((item) => item.action === 'ERROR').length,
+        items: plan.items
+      }
+    });
+  } catch (error) {
+    console.error('Error importing words:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to import words' 
+    });
+  }
+});
+
+// Применить одно действие к нескольким словам в одной транзакции.
+// Слова задаются списком wordIds или фильтром списка слов (filter: {} — все слова не из корзины)
+router.post('/bulk', async (req: Request<{}, {}, BulkWordsRequest>, res: Response<ApiResponse<BulkWordsResult>>) => {
+  try {
+    const { action, wordIds, filter: rawFilter, tag: rawTag, deckId } = req.body;
+
+    if (!BULK_ACTIONS.includes(action)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid action' 
+      });
+    }
+
+    if (wordIds === undefined && rawFilter === undefined) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Word IDs or filter are required' 
+      });
+    }
+
+    if (wordIds !== undefined && !(Array.isArray(wordIds) && wordIds.every((id) => Number.isInteger(id)))) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid word IDs' 
+      });
+    }
+
+    const filter = rawFilter === undefined ? undefined : parseWordFilter(rawFilter);
+    if (filter === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid filter' 
+      });
     }
-    
-    // Условие исключения текущего слова (если передан excludeId)
-    const excludeCondition = excludeId ? { id: { not: parseInt(excludeId) } } : {};
 
-    // Пул слов без правильных ответов
-    const whereUnlearned = {
-      ...whereClause,
-      ...excludeCondition,
-      answers: {
-        none: {
-          isCorrect: true
-        }
-      }
-    } as const;
+    const tag = typeof rawTag === 'string' ? normalizeTagName(rawTag) : '';
+    if ((action === 'ADD_TAG' || action === 'REMOVE_TAG') && !tag) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Tag is required' 
+      });
+    }
 
-    const totalUnlearned = await prisma.word.count({ where: whereUnlearned });
+    if (action === 'MOVE_TO_DECK') {
+      const deck = Number.isInteger(deckId) ? await prisma.deck.findUnique({ where: { id: deckId } }) : null;
+      if (!deck) {
+        return res.status(404).json({ 
+          success: false, 
+          error: 'Deck not found' 
+        });
+      }
+      // Состав встроенной колоды задается избранным
+      if (deck.builtIn) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Words cannot be moved to the built-in deck' 
+        });
+      }
+    }
 
-    if (totalUnlearned > 0) {
-      const randomSkip = Math.floor(Math.random() * totalUnlearned);
-      const candidates = await prisma.word.findMany({
-        where: whereUnlearned,
-        skip: randomSkip,
-        take: 1
+    const affected = await prisma.$transaction(async (tx) => {
+      const words = await tx.word.findMany({
+        where: {
+          AND: [
+            wordIds !== undefined ? { ...ACTIVE_WORD, id: { in: wordIds } } : wordFilterWhere(filter!),
+            // Метка снимается только со слов, у которых она есть
+            action === 'REMOVE_TAG' ? { tags: { some: { name: tag } } } : {}
+          ]
+        },
+        select: { id: true }
       });
-      if (candidates[0]) {
-        return res.json({ success: true, data: {word: candidates[0], unlearnedCount: totalUnlearned } });
+      if (words.length > 0) {
+        await applyBulkAction(tx, words.map(({ id }) => id), { action, tag, deckId }, revisionAuthor(req));
       }
-    }
+      return words.length;
+    }, { timeout: BULK_TIMEOUT_MS });
 
-    return res.status(404).json({ success: false, error: 'No words available for study' });
+    return res.json({ success: true, data: { action, affected } });
   } catch (error) {
-    console.error('Error fetching study word:', error);
+    console.error('Error applying bulk action:', error);
     return res.status(500).json({ 
       success: false, 
-      error: 'Failed to fetch study word' 
+      error: 'Failed to apply bulk action' 
     });
   }
 });
 
-// Получить избранные слова
-router.get('/favorites', async (req: Request, res: Response<ApiResponse<Word[]>>) => {
+// Слить два слова в одно. Ответы, варианты ответа, примеры и расписание переходят к оставшемуся слову
+// (если у него уже есть расписание в этом направлении, оно сохраняется), избранное сохраняется,
+// если слово было избранным хотя бы в одной из копий. Пустые поля оставшегося слова заполняются из сливаемого
+router.post('/merge', async (req: Request<{}, {}, MergeWordsRequest>, res: Response<ApiResponse<Word>>) => {
   try {
-    const words = await prisma.word.findMany({
-      where: { isFavorite: true },
-      orderBy: { createdAt: 'desc' }
-    });
-    
-    return res.json({ success: true, data: words });
-  } catch (error) {
-    console.error('Error fetching favorite words:', error);
-    return res.status(500).json({ 
-      success: false, 
-      error: 'Failed to fetch favorite words' 
-    });
-  }
-});
+    const { targetId, sourceId, fromSource = [] } = req.body;
 
-// Получить слово по ID
-router.get('/:id', async (req: Request, res: Response<ApiResponse<Word>>) => {
-  try {
-    const { id } = req.params;
-    const word = await prisma.word.findUnique({
-      where: { id: parseInt(id) }
-    });
-    
-    if (!word) {
+    if (!Number.isInteger(targetId) || !Number.isInteger(sourceId) || targetId === sourceId) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Two different word IDs are required' 
+      });
+    }
+
+    if (!Array.isArray(fromSource) || !fromSource.every((field) => MERGE_FIELDS.includes(field))) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid merge fields' 
+      });
+    }
+
+    const [target, source] = await Promise.all([
+      prisma.word.findFirst({ where: { id: targetId, ...ACTIVE_WORD }, include: SNAPSHOT_INCLUDE }),
+      prisma.word.findFirst({ where: { id: sourceId, ...ACTIVE_WORD }, include: WORD_INCLUDE })
+    ]);
+
+    if (!target || !source) {
       return res.status(404).json({ 
         success: false, 
         error: 'Word not found' 
       });
     }
-    
+
+    const word = await prisma.$transaction(async (tx) => {
+      await tx.answer.updateMany({ where: { wordId: source.id }, data: { wordId: target.id } });
+
+      const targetDirections = (await tx.wordProgress.findMany({
+        where: { wordId: target.id },
+        select: { direction: true }
+      })).map((progress) => progress.direction);
+      await tx.wordProgress.updateMany({
+        where: { wordId: source.id, direction: { notIn: targetDirections } },
+        data: { wordId: target.id }
+      });
+
+      const targetSessions = (await tx.sessionItem.findMany({
+        where: { wordId: target.id },
+        select: { sessionId: true }
+      })).map((item) => item.sessionId);
+      await tx.sessionItem.updateMany({
+        where: { wordId: source.id, sessionId: { notIn: targetSessions } },
+        data: { wordId: target.id }
+      });
+
+      await tx.wordVariant.createMany({
+        data: source.variants.map(({ text, direction }) => ({ wordId: target.id, text, direction })),
+        skipDuplicates: true
+      });
+
+      // Примеры сливаемого слова добавляются после своих, кроме повторяющих уже имеющиеся
+      const knownExamples = new Set(target.examples.map((example) => example.english.toLowerCase()));
+      await tx.example.createMany({
+        data: source.examples
+          .filter((example) => !knownExamples.has(example.english.toLowerCase()))
+          .map(({ english, russian }, index) => ({
+            wordId: target.id,
+            english,
+            russian,
+            position: target.examples.length + index
+          }))
+      });
+
+      // Оставшиеся записи сливаемого слова удаляются каскадно
+      await tx.word.delete({ where: { id: source.id } });
+
+      const merged = await tx.word.update({
+        where: { id: target.id },
+        data: {
+          transcription: target.transcription || source.transcription,
+          notes: target.notes || source.notes,
+          partOfSpeech: target.partOfSpeech ?? source.partOfSpeech,
+          register: target.register ?? source.register,
+          ...Object.fromEntries(fromSource.map((field) => [field, source[field]])),
+          isFavorite: target.isFavorite || source.isFavorite,
+          synonymGroupId: target.synonymGroupId ?? source.synonymGroupId,
+          sourceText: target.sourceText || source.sourceText,
+          sourceUrl: target.sourceUrl || source.sourceUrl,
+          tags: { connect: source.tags.map(({ id }) => ({ id })) },
+          // Встроенная колода синхронизируется по isFavorite ниже
+          decks: { connect: source.decks.filter((deck) => !deck.builtIn).map(({ id }) => ({ id })) }
+        },
+        include: WORD_INCLUDE
+      });
+      const author = revisionAuthor(req);
+      await recordRevision(tx, { wordId: source.id, action: 'DELETE', author, before: toSnapshot(source), after: null });
+      await recordRevision(tx, { wordId: target.id, action: 'UPDATE', author, before: toSnapshot(target), after: toSnapshot(merged) });
+      await deleteSmallGroups(tx);
+      await syncFavoritesDeck(tx);
+      return merged;
+    });
+
     return res.json({ success: true, data: word });
   } catch (error) {
-    console.error('Error fetching word:', error);
+    console.error('Error merging words:', error);
     return res.status(500).json({ 
       success: false, 
-      error: 'Failed to fetch word' 
+      error: 'Failed to merge words' 
     });
   }
 });
 
 // Создать новое слово
-router.post('/', async (req: Request<{}, {}, CreateWordRequest>, res: Response<ApiResponse<Word>>) => {
+router.post('/', async (req: Request<{}, {}, CreateWordRequest>, res: Response<ApiResponse<Word | DuplicateConflict>>) => {
   try {
-    const { english, russian, exampleEn, exampleRu } = req.body;
+    const { english, russian, sourceText = '', sourceUrl = '' } = req.body;
     
-    if (!english || !russian || !exampleEn || !exampleRu) {
+    if (!english || !russian) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'English word and translation are required' 
+      });
+    }
+
+    // Примеры необязательны
+    const examples = parseExamples(req.body.examples ?? []);
+    if (!examples) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid examples' 
+      });
+    }
+
+    const variants = parseVariants(req.body.variants ?? []);
+    if (!variants) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid variants' 
+      });
+    }
+
+    const normalization = req.body.normalization === undefined
+      ? undefined
+      : parseNormalizationRules(req.body.normalization);
+    if (normalization === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid normalization rules' 
+      });
+    }
+
+    const tags = parseTags(req.body.tags ?? []);
+    if (!tags) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid tags' 
+      });
+    }
+
+    const details = parseWordDetails(req.body);
+    if (!details) {
       return res.status(400).json({ 
         success: false, 
-        error: 'All fields are required' 
+        error: 'Invalid word details' 
       });
     }
     
-    const word = await prisma.word.create({
-      data: {
-        english: english.toLowerCase().trim(),
-        russian: russian.trim(),
-        exampleEn: exampleEn.trim(),
-        exampleRu: exampleRu.trim()
-      }
+    // Повтор уже существующего слова не создается; похожее слово создается только с allowSimilar
+    const duplicates = findDuplicates(english, await prisma.word.findMany({ where: ACTIVE_WORD, include: WORD_INCLUDE }));
+    if (duplicates.some((match) => match.exact || !req.body.allowSimilar)) {
+      return res.status(409).json({ 
+        success: false, 
+        error: duplicates[0].exact ? 'Word already exists' : 'A similar word already exists',
+        data: { duplicates }
+      });
+    }
+    
+    const word = await prisma.$transaction(async (tx) => {
+      const created = await tx.word.create({
+        data: {
+          english: english.toLowerCase().trim(),
+          russian: russian.trim(),
+          sourceText: sourceText.trim(),
+          sourceUrl: sourceUrl.trim(),
+          ...details,
+          normalization,
+          variants: { create: variants },
+          examples: createExamples(examples),
+          tags: connectTags(tags)
+        },
+        include: WORD_INCLUDE
+      });
+      await recordRevision(tx, { wordId: created.id, action: 'CREATE', author: revisionAuthor(req), before: null, after: toSnapshot(created) });
+      return created;
     });
     
     return res.status(201).json({ success: true, data: word });
@@ -156,19 +1268,100 @@ router.put('/:id', async (req: Request<{id: string}, {}, UpdateWordRequest>, res
   try {
     const { id } = req.params;
     const updateData = req.body;
+    const { variants: rawVariants, examples: rawExamples, tags: rawTags } = updateData;
     
-    // Очистить undefined значения
-    const cleanData = Object.fromEntries(
-      Object.entries(updateData).filter(([_, value]) => value !== undefined)
+    // Взять только изменяемые поля, без undefined значений
+    const cleanData: Pick<UpdateWordRequest, typeof EDITABLE_FIELDS[number]> = Object.fromEntries(
+      EDITABLE_FIELDS
+        .filter((field) => updateData[field] !== undefined)
+        .map((field) => [field, updateData[field]])
     );
     
     if (cleanData.english) {
       cleanData.english = cleanData.english.toLowerCase().trim();
     }
+    for (const field of ['sourceText', 'sourceUrl'] as const) {
+      if (typeof cleanData[field] === 'string') {
+        cleanData[field] = cleanData[field].trim();
+      }
+    }
+
+    // Переданный список вариантов заменяет текущий
+    const variants = rawVariants === undefined ? undefined : parseVariants(rawVariants);
+    if (variants === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid variants' 
+      });
+    }
+
+    // Переданный список примеров заменяет текущий
+    const examples = rawExamples === undefined ? undefined : parseExamples(rawExamples);
+    if (examples === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid examples' 
+      });
+    }
+
+    // Переданный список меток заменяет текущий
+    const tags = rawTags === undefined ? undefined : parseTags(rawTags);
+    if (tags === null) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid tags' 
+      });
+    }
+
+    const details = parseWordDetails(updateData);
+    if (!details) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid word details' 
+      });
+    }
+
+    if (cleanData.normalization !== undefined) {
+      const normalization = parseNormalizationRules(cleanData.normalization);
+      if (!normalization) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Invalid normalization rules' 
+        });
+      }
+      cleanData.normalization = normalization;
+    }
+    
+    const current = await prisma.word.findFirst({ where: { id: parseInt(id), ...ACTIVE_WORD }, include: SNAPSHOT_INCLUDE });
+    if (!current) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found' 
+      });
+    }
+    const before = toSnapshot(current);
     
-    const word = await prisma.word.update({
-      where: { id: parseInt(id) },
-      data: cleanData
+    const word = await prisma.$transaction(async (tx) => {
+      if (tags) {
+        await tx.tag.createMany({ data: tags.map((name) => ({ name })), skipDuplicates: true });
+      }
+      
+      const updated = await tx.word.update({
+        where: { id: parseInt(id) },
+        data: {
+          ...cleanData,
+          ...details,
+          ...(variants && { variants: { deleteMany: {}, create: variants } }),
+          ...(examples && { examples: { deleteMany: {}, ...createExamples(examples) } }),
+          ...(tags && { tags: { set: tags.map((name) => ({ name })) } })
+        },
+        include: WORD_INCLUDE
+      });
+      await recordRevision(tx, { wordId: updated.id, action: 'UPDATE', author: revisionAuthor(req), before, after: toSnapshot(updated) });
+      if (cleanData.isFavorite !== undefined) {
+        await syncFavoritesDeck(tx);
+      }
+      return updated;
     });
     
     return res.json({ success: true, data: word });
@@ -181,13 +1374,22 @@ router.put('/:id', async (req: Request<{id: string}, {}, UpdateWordRequest>, res
   }
 });
 
-// Удалить слово
+// Удалить слово: слово перемещается в корзину вместе с ответами и расписанием
 router.delete('/:id', async (req: Request, res: Response<ApiResponse<{}>>) => {
   try {
-    const { id } = req.params;
+    const wordId = parseInt(req.params.id);
+    
+    const word = await prisma.word.findFirst({ where: { id: wordId, ...ACTIVE_WORD }, include: SNAPSHOT_INCLUDE });
+    if (!word) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found' 
+      });
+    }
     
-    await prisma.word.delete({
-      where: { id: parseInt(id) }
+    await prisma.$transaction(async (tx) => {
+      await tx.word.update({ where: { id: wordId }, data: { deletedAt: new Date() } });
+      await recordRevision(tx, { wordId, action: 'DELETE', author: revisionAuthor(req), before: toSnapshot(word), after: null });
     });
     
     return res.json({ success: true });
@@ -205,8 +1407,9 @@ router.patch('/:id/favorite', async (req: Request, res: Response<ApiResponse<Wor
   try {
     const { id } = req.params;
     
-    const currentWord = await prisma.word.findUnique({
-      where: { id: parseInt(id) }
+    const currentWord = await prisma.word.findFirst({
+      where: { id: parseInt(id), ...ACTIVE_WORD },
+      include: SNAPSHOT_INCLUDE
     });
     
     if (!currentWord) {
@@ -216,9 +1419,21 @@ router.patch('/:id/favorite', async (req: Request, res: Response<ApiResponse<Wor
       });
     }
     
-    const word = await prisma.word.update({
-      where: { id: parseInt(id) },
-      data: { isFavorite: !currentWord.isFavorite }
+    const word = await prisma.$transaction(async (tx) => {
+      const updated = await tx.word.update({
+        where: { id: parseInt(id) },
+        data: { isFavorite: !currentWord.isFavorite },
+        include: WORD_INCLUDE
+      });
+      await recordRevision(tx, {
+        wordId: updated.id,
+        action: 'UPDATE',
+        author: revisionAuthor(req),
+        before: toSnapshot(currentWord),
+        after: toSnapshot(updated)
+      });
+      await syncFavoritesDeck(tx);
+      return updated;
     });
     
     return res.json({ success: true, data: word });
@@ -231,4 +1446,302 @@ router.patch('/:id/favorite', async (req: Request, res: Response<ApiResponse<Wor
   }
 });
 
+// Добавить пример в конец списка примеров слова
+router.post('/:id/examples', async (req: Request<{ id: string }, {}, ExampleInput>, res: Response<ApiResponse<Word>>) => {
+  try {
+    const wordId = parseInt(req.params.id);
+    const [example] = parseExamples([req.body]) ?? [];
+
+    if (!example) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Example text is required' 
+      });
+    }
+
+    const word = await prisma.word.findFirst({ where: { id: wordId, ...ACTIVE_WORD }, include: SNAPSHOT_INCLUDE });
+    if (!word) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found' 
+      });
+    }
+
+    const last = word.examples[word.examples.length - 1];
+    await prisma.$transaction(async (tx) => {
+      await tx.example.create({
+        data: { wordId, ...example, position: last ? last.position + 1 : 0 }
+      });
+      await recordRevision(tx, { wordId, action: 'UPDATE', author: revisionAuthor(req), before: toSnapshot(word), after: await findSnapshot(tx, wordId) });
+    });
+    const updated = (await findWord(wordId))!;
+
+    return res.status(201).json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error adding example:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to add example' 
+    });
+  }
+});
+
+// Изменить порядок примеров: передаются все примеры слова в новом порядке
+router.put('/:id/examples/order', async (req: Request<{ id: string }, {}, ExampleOrderRequest>, res: Response<ApiResponse<Word>>) => {
+  try {
+    const wordId = parseInt(req.params.id);
+    const { exampleIds } = req.body;
+
+    const word = await prisma.word.findFirst({ where: { id: wordId, ...ACTIVE_WORD }, include: SNAPSHOT_INCLUDE });
+    if (!word) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found' 
+      });
+    }
+
+    const currentIds = new Set(word.examples.map((example) => example.id));
+    if (
+      !Array.isArray(exampleIds)
+      || exampleIds.length !== currentIds.size
+      || new Set(exampleIds).size !== exampleIds.length
+      || !exampleIds.every((id) => currentIds.has(id))
+    ) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Example IDs must list every example of the word' 
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const [position, id] of exampleIds.entries()) {
+        await tx.example.update({ where: { id }, data: { position } });
+      }
+      await recordRevision(tx, { wordId, action: 'UPDATE', author: revisionAuthor(req), before: toSnapshot(word), after: await findSnapshot(tx, wordId) });
+    });
+    const updated = (await findWord(wordId))!;
+
+    return res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error reordering examples:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to reorder examples' 
+    });
+  }
+});
+
+// Удалить пример слова
+router.delete('/:id/examples/:exampleId', async (req: Request, res: Response<ApiResponse<Word>>) => {
+  try {
+    const wordId = parseInt(req.params.id);
+    const exampleId = parseInt(req.params.exampleId);
+
+    if (!(await prisma.word.findFirst({ where: { id: wordId, ...ACTIVE_WORD }, select: { id: true } }))) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Word not found' 
+      });
+    }
+
+    const example = await prisma.example.findUnique({ where: { id: exampleId } });
+    if (!example || example.wordId !== wordId) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Example not found' 
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const before = await findSnapshot(tx, wordId);
+      await tx.example.delete({ where: { id: exampleId } });
+      await recordRevision(tx, { wordId, action: 'UPDATE', author: revisionAuthor(req), before, after: await findSnapshot(tx, wordId) });
+    });
+    const updated = (await findWord(wordId))!;
+
+    return res.json({ success: true, data: updated });
+  } catch (error) {
+    console.error('Error deleting example:', error);
+    return res.status(500).json({ 
+      success: false, 
+      error: 'Failed to delete example' 
+    });
+  }
+});
+
+// Проверить фильтр из тела запроса. null — поле фильтра неверного типа
+function parseWordFilter(raw: unknown): WordFilter | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return null;
+  }
+  const { search, favorite, learned, deckId, tag } = raw as Record<string, unknown>;
+  const isOptional = (value: unknown, type: 'string' | 'boolean') => value === undefined || typeof value === type;
+  if (!isOptional(search, 'string') || !isOptional(tag, 'string')
+    || !isOptional(favorite, 'boolean') || !isOptional(learned, 'boolean')
+    || (deckId !== undefined && !(Number.isInteger(deckId) && (deckId as number) > 0))) {
+    return null;
+  }
+  return {
+    search: search as string | undefined,
+    favorite: favorite as boolean | undefined,
+    learned: learned as boolean | undefined,
+    deckId: deckId as number | undefined,
+    tag: tag as string | undefined
+  };
+}
+
+// Слово со связанными данными
+async function findWord(id: number): Promise<Word | null> {
+  return prisma.word.findUnique({ where: { id }, include: WORD_INCLUDE });
+}
+
+interface WordAnswerStats {
+  accuracy: number | null;
+  lastAnsweredAt: Date | null;
+}
+
+// Точность и дата последнего ответа по каждому слову (без учета направления)
+async function getAnswerStats(wordIds: number[]): Promise<Map<number, WordAnswerStats>> {
+  const groups = await prisma.answer.groupBy({
+    by: ['wordId', 'isCorrect'],
+    where: { wordId: { in: wordIds } },
+    _count: { _all: true },
+    _max: { createdAt: true }
+  });
+
+  const totals = new Map<number, { correct: number; total: number; lastAnsweredAt: Date | null }>();
+  for (const group of groups) {
+    const current = totals.get(group.wordId) ?? { correct: 0, total: 0, lastAnsweredAt: null };
+    current.total += group._count._all;
+    if (group.isCorrect) {
+      current.correct += group._count._all;
+    }
+    const answeredAt = group._max.createdAt;
+    if (answeredAt && (!current.lastAnsweredAt || answeredAt > current.lastAnsweredAt)) {
+      current.lastAnsweredAt = answeredAt;
+    }
+    totals.set(group.wordId, current);
+  }
+
+  return new Map([...totals].map(([wordId, { correct, total, lastAnsweredAt }]) => [
+    wordId,
+    { accuracy: total > 0 ? Math.round((correct / total) * 100) / 100 : null, lastAnsweredAt }
+  ]));
+}
+
+// Упорядочить слова по точности или дате последнего ответа.
+// Слова без ответов всегда идут в конце, при равенстве — по id
+function sortByAnswerStats(
+  wordIds: number[],
+  stats: Map<number, WordAnswerStats>,
+  sort: 'accuracy' | 'lastAnswered',
+  order: SortOrder
+): number[] {
+  const value = (id: number): number | null => {
+    const wordStats = stats.get(id);
+    if (sort === 'accuracy') {
+      return wordStats?.accuracy ?? null;
+    }
+    return wordStats?.lastAnsweredAt?.getTime() ?? null;
+  };
+  const direction = order === 'asc' ? 1 : -1;
+
+  return [...wordIds].sort((a, b) => {
+    const valueA = value(a);
+    const valueB = value(b);
+    if (valueA === null || valueB === null) {
+      return valueA === valueB ? a - b : valueA === null ? 1 : -1;
+    }
+    return (valueA - valueB) * direction || (a - b) * direction;
+  });
+}
+
+// Выбрать следующее слово по расписанию: самое просроченное, иначе случайное новое
+// (в смешанном режиме направление нового слова тоже выбирается случайно)
+async function pickStudyWord(
+  whereClause: Prisma.WordWhereInput,
+  directions: Direction[],
+  levels?: MasteryLevel[]
+): Promise<{ word: Word; direction: Direction } | null> {
+  const { reviewLevels, includeNew } = splitLevels(levels);
+
+  const dueProgress = reviewLevels.length > 0 ? await prisma.wordProgress.findFirst({
+    where: {
+      direction: { in: directions },
+      dueAt: { lte: new Date() },
+      mastery: { in: reviewLevels },
+      word: whereClause
+    },
+    orderBy: { dueAt: 'asc' },
+    include: { word: { include: WORD_INCLUDE } }
+  }) : null;
+  if (dueProgress) {
+    return { word: dueProgress.word, direction: dueProgress.direction };
+  }
+
+  if (!includeNew) {
+    return null;
+  }
+
+  const shuffledDirections = [...directions].sort(() => Math.random() - 0.5);
+  for (const direction of shuffledDirections) {
+    const whereNew = { ...whereClause, progress: { none: { direction } } };
+    const totalNew = await prisma.word.count({ where: whereNew });
+
+    if (totalNew > 0) {
+      const randomSkip = Math.floor(Math.random() * totalNew);
+      const candidates = await prisma.word.findMany({
+        where: whereNew,
+        skip: randomSkip,
+        take: 1,
+        include: WORD_INCLUDE
+      });
+      if (candidates[0]) {
+        return { word: candidates[0], direction };
+      }
+    }
+  }
+
+  return null;
+}
+
+// Посчитать слова к повторению до конца дня и новые слова в выбранных направлениях
+async function countStudyQueue(
+  whereClause: Prisma.WordWhereInput,
+  directions: Direction[],
+  levels?: MasteryLevel[]
+): Promise<{ dueCount: number; newCount: number }> {
+  const endOfDay = new Date();
+  endOfDay.setHours(23, 59, 59, 999);
+  const { reviewLevels, includeNew } = splitLevels(levels);
+
+  const [dueCount, newCounts] = await Promise.all([
+    reviewLevels.length > 0 ? prisma.wordProgress.count({
+      where: {
+        direction: { in: directions },
+        dueAt: { lte: endOfDay },
+        mastery: { in: reviewLevels },
+        word: whereClause
+      }
+    }) : 0,
+    includeNew ? Promise.all(directions.map((direction) => prisma.word.count({
+      where: { ...whereClause, progress: { none: { direction } } }
+    }))) : [],
+  ]);
+
+  return { dueCount, newCount: newCounts.reduce((sum, count) => sum + count, 0) };
+}
+
+// Разделить фильтр уровней на уровни повторяемых слов и признак выдачи новых
+// Без фильтра подходят все уровни
+function splitLevels(levels?: MasteryLevel[]): { reviewLevels: MasteryLevel[]; includeNew: boolean } {
+  if (!levels) {
+    return { reviewLevels: ['LEARNING', 'FAMILIAR', 'MASTERED'], includeNew: true };
+  }
+  return {
+    reviewLevels: levels.filter((level) => level !== 'NEW'),
+    includeNew: levels.includes('NEW')
+  };
+}
+
 export { router as wordRoutes };
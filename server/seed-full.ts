@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import fs from 'fs';
 import path from 'path';
+import { connectTags, splitTags } from './services/tags';
+import { createExamples, parseExamples } from './services/examples';
 
 const prisma = new PrismaClient();
 
@@ -36,8 +38,13 @@ async function main() {
       const wordData = {
         english: item['Search text'],
         russian: item['Translation text'],
-        exampleEn: item['Search example'],
-        exampleRu: item['Translation example'],
+        examples: createExamples(parseExamples([
+          { english: item['Search example'] ?? '', russian: item['Translation example'] ?? '' }
+        ]) ?? []),
+        sourceText: item['Source text'] ?? '',
+        sourceUrl: item['Document / URL'] ?? '',
+        // Метки перечислены в "Tags / Comments" через запятую
+        tags: connectTags(splitTags(item['Tags / Comments'] ?? '', /[,;]/)),
         isFavorite: false, // Можно добавить логику для избранных слов, если нужно
       };
 
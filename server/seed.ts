@@ -85,9 +85,9 @@ async function main() {
   console.log('Cleared existing data');
   
   // Добавить слова
-  for (const wordData of sampleWords) {
+  for (const { exampleEn, exampleRu, ...wordData } of sampleWords) {
     await prisma.word.create({
-      data: wordData
+      data: { ...wordData, examples: { create: [{ english: exampleEn, russian: exampleRu }] } }
     });
   }
   
@@ -0,0 +1,76 @@
+// Массовые действия над словами. Слова выбираются в маршруте (по id или фильтру списка),
+// действие применяется к ним в той же транзакции; изменения избранного, меток и удаление попадают в историю правок
+import { Prisma } from '@prisma/client';
+import { BulkAction } from '../types';
+import { syncFavoritesDeck } from './decks';
+import { findSnapshots, recordRevisions, recordUpdates } from './revisions';
+
+// Действие над всем словарем может не уложиться в стандартные 5 секунд интерактивной транзакции
+export const BULK_TIMEOUT_MS = 60 * 1000;
+
+export const BULK_ACTIONS: BulkAction[] = [
+  'FAVORITE', 'UNFAVORITE', 'ADD_TAG', 'REMOVE_TAG', 'MOVE_TO_DECK', 'RESET_PROGRESS', 'DELETE',
+];
+
+export async function applyBulkAction(
+  tx: Prisma.TransactionClient,
+  wordIds: number[],
+  request: { action: BulkAction; tag?: string; deckId?: number },
+  author: string
+): Promise<void> {
+  const where = { id: { in: wordIds } };
+  const before = await findSnapshots(tx, wordIds);
+
+  switch (request.action) {
+    case 'FAVORITE':
+    case 'UNFAVORITE':
+      await tx.word.updateMany({ where, data: { isFavorite: request.action === 'FAVORITE' } });
+      await recordUpdates(tx, before, author);
+      await syncFavoritesDeck(tx);
+      return;
+    case 'ADD_TAG':
+      await tx.tag.upsert({
+        where: { name: request.tag! },
+        create: { name: request.tag!, words: { connect: wordIds.map((id) => ({ id })) } },
+        update: { words: { connect: wordIds.map((id) => ({ id })) } }
+      });
+      await recordUpdates(tx, before, author);
+      return;
+    case 'REMOVE_TAG':
+      // Выбираются только слова с этой меткой, поэтому метка существует
+      await tx.tag.update({
+        where: { name: request.tag! },
+        data: { words: { disconnect: wordIds.map((id) => ({ id })) } }
+      });
+      await recordUpdates(tx, before, author);
+      return;
+    case 'MOVE_TO_DECK': {
+      // Слово убирается из остальных колод (кроме встроенной) и добавляется в выбранную
+      const words = await tx.word.findMany({
+        where,
+        select: { id: true, decks: { where: { builtIn: false, id: { not: request.deckId } }, select: { id: true } } }
+      });
+      for (const word of words) {
+        await tx.word.update({
+          where: { id: word.id },
+          data: { decks: { disconnect: word.decks, connect: { id: request.deckId } } }
+        });
+      }
+      return;
+    }
+    case 'RESET_PROGRESS':
+      // Сбрасываются расписание и уровни владения; ответы остаются в истории и статистике точности
+      await tx.wordProgress.deleteMany({ where: { wordId: { in: wordIds } } });
+      return;
+    case 'DELETE':
+      await tx.word.updateMany({ where, data: { deletedAt: new Date() } });
+      await recordRevisions(tx, [...before].map(([wordId, snapshot]) => ({
+        wordId,
+        action: 'DELETE' as const,
+        author,
+        before: snapshot,
+        after: null
+      })));
+      return;
+  }
+}
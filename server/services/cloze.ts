@@ -0,0 +1,91 @@
+// Упражнение "заполните пропуск": целевое слово или фраза вырезается из английского примера
+import { Direction } from '../types';
+import { expandOptionalParts } from './variants';
+
+export const CLOZE_BLANK = '_____';
+
+// Частица "to" и артикли в начале фразы в примере обычно отсутствуют
+const LEADING_PARTICLES = /^(?:to|a|an|the)\s+/i;
+// Типичные окончания словоформ: proceeds, proceeded, proceeding, bigger...
+const ENDINGS = '(?:s|es|ed|d|ing|er|est)?';
+
+export interface Cloze {
+  // Пример с пропуском вместо целевой фразы
+  text: string;
+  // Словоформа, которая стоит в примере (например, "proceeded with")
+  answer: string;
+  // Количество слов в пропуске
+  blanks: number;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Шаблон для одного слова с учетом изменений основы перед окончанием
+function tokenPattern(token: string): string {
+  // study → studied, studies, studying
+  if (/[^aeiou]y$/i.test(token)) {
+    return `${escapeRegExp(token.slice(0, -1))}(?:y|i)${ENDINGS}`;
+  }
+  // make → making, use → used
+  if (/[^aeiou]e$/i.test(token)) {
+    return `${escapeRegExp(token.slice(0, -1))}e?${ENDINGS}`;
+  }
+  // stop → stopped, plan → planning
+  if (/[^aeiou][aeiou][bdgklmnprt]$/i.test(token)) {
+    return `${escapeRegExp(token)}${escapeRegExp(token.slice(-1))}?${ENDINGS}`;
+  }
+  return `${escapeRegExp(token)}${ENDINGS}`;
+}
+
+// Целевые фразы слова: английское слово и принятые варианты английского ответа
+export function clozeTargets(word: { english: string; variants?: { text: string; direction: Direction }[] }): string[] {
+  return [
+    word.english,
+    ...(word.variants ?? []).filter((variant) => variant.direction === 'RU_EN').map((variant) => variant.text),
+  ];
+}
+
+// Построить упражнение по примеру. Необязательные части в скобках раскрываются ("proceed (with)" →
+// "proceed with", "proceed"); формы проверяются по порядку, полные раньше сокращенных.
+// null — ни одна форма в примере не найдена
+export function buildCloze(sentence: string, targets: string[]): Cloze | null {
+  for (const form of targets.flatMap(expandOptionalParts)) {
+    const cloze = buildFormCloze(sentence, form);
+    if (cloze) {
+      return cloze;
+    }
+  }
+  return null;
+}
+
+function buildFormCloze(sentence: string, target: string): Cloze | null {
+  const tokens = target
+    .trim()
+    .replace(LEADING_PARTICLES, '')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const pattern = new RegExp(
+    `(?<![A-Za-z])${tokens.map(tokenPattern).join('\\s+')}(?![A-Za-z])`,
+    'i'
+  );
+  const match = pattern.exec(sentence);
+  if (!match) {
+    return null;
+  }
+
+  const answer = match[0];
+  const blanks = answer.split(/\s+/).length;
+  const text =
+    sentence.slice(0, match.index) +
+    Array(blanks).fill(CLOZE_BLANK).join(' ') +
+    sentence.slice(match.index + answer.length);
+
+  return { text, answer, blanks };
+}
@@ -0,0 +1,32 @@
+// Колоды слов. Встроенная колода "Favorites" повторяет признак isFavorite:
+// избранное по-прежнему переключается на слове, а колода синхронизируется после каждого изменения
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export const FAVORITES_DECK_NAME = 'Favorites';
+
+type DeckClient = PrismaClient | Prisma.TransactionClient;
+
+// Создать встроенную колоду, если ее еще нет, и привести ее состав к избранным словам.
+// При первом запуске переносит в колоду все слова, отмеченные избранными
+export async function syncFavoritesDeck(prisma: DeckClient): Promise<void> {
+  const favorites = await prisma.word.findMany({ where: { isFavorite: true }, select: { id: true } });
+  await prisma.deck.upsert({
+    where: { name: FAVORITES_DECK_NAME },
+    create: { name: FAVORITES_DECK_NAME, builtIn: true, words: { connect: favorites } },
+    update: { builtIn: true, words: { set: favorites } }
+  });
+}
+
+// Условие выборки слов колоды
+export function deckWhere(deckId: number) {
+  return { decks: { some: { id: deckId } } };
+}
+
+// Разобрать id колоды из строки запроса. undefined — колода не задана, null — некорректный id
+export function parseDeckId(raw: string | undefined): number | undefined | null {
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+  const deckId = Number(raw);
+  return Number.isInteger(deckId) && deckId > 0 ? deckId : null;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatDelimited, parseDelimited } from './delimited';
+
+const fields = (text: string, delimiter = ',') => parseDelimited(text, delimiter).rows.map((row) => row.fields);
+
+describe('parseDelimited', () => {
+  it('splits records by line and fields by the delimiter', () => {
+    expect(fields('a,b,c\nd,e,f\n')).toEqual([['a', 'b', 'c'], ['d', 'e', 'f']]);
+    expect(fields('a\tb,c\n', '\t')).toEqual([['a', 'b,c']]);
+  });
+
+  it('keeps empty fields and skips empty lines', () => {
+    expect(fields('a,,\n\n,b\n')).toEqual([['a', '', ''], ['', 'b']]);
+  });
+
+  it('reads CRLF and a last line without a line break', () => {
+    expect(fields('a,b\r\nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('keeps delimiters inside quoted fields', () => {
+    expect(fields('"proceed, continue",продолжить\n')).toEqual([['proceed, continue', 'продолжить']]);
+  });
+
+  it('reads doubled quotes as one quote', () => {
+    expect(fields('"say ""hello""",""""\n')).toEqual([['say "hello"', '"']]);
+  });
+
+  it('treats a quote inside an unquoted field as text', () => {
+    expect(fields('5" screen,экран\n')).toEqual([['5" screen', 'экран']]);
+  });
+
+  it('keeps line breaks inside quoted fields and numbers records by their first line', () => {
+    const table = parseDelimited('a,"first\nsecond"\nb,c\n', ',');
+
+    expect(table.rows).toEqual([
+      { line: 1, fields: ['a', 'first\nsecond'] },
+      { line: 3, fields: ['b', 'c'] },
+    ]);
+    expect(table.unclosedQuoteLine).toBeNull();
+  });
+
+  it('reports the line of an unclosed quote and keeps the records before it', () => {
+    const table = parseDelimited('a,b\nc,"open\nd,e\n', ',');
+
+    expect(table.rows).toEqual([{ line: 1, fields: ['a', 'b'] }]);
+    expect(table.unclosedQuoteLine).toBe(2);
+  });
+});
+
+describe('formatDelimited', () => {
+  it('quotes only fields with the delimiter, quotes or line breaks', () => {
+    expect(formatDelimited([['plain', 'a,b', 'say "hi"', 'two\nlines']], ',')).toBe(
+      'plain,"a,b","say ""hi""","two\nlines"\n',
+    );
+    expect(formatDelimited([['a,b', 'c\td']], '\t')).toBe('a,b\t"c\td"\n');
+  });
+
+  it.each([',', '\t'])('is read back unchanged with delimiter %j', (delimiter) => {
+    const rows = [['english', 'russian'], ['a, "b"', 'first\nsecond'], ['', 'tab\there']];
+
+    expect(fields(formatDelimited(rows, delimiter), delimiter)).toEqual(rows);
+  });
+});
@@ -0,0 +1,95 @@
+// Чтение и запись таблиц с разделителем (CSV, TSV).
+// Поля с разделителем, кавычками или переводом строки заключаются в двойные кавычки,
+// кавычки внутри поля удваиваются
+
+export interface DelimitedRow {
+  // Номер строки файла, с которой начинается запись (с 1)
+  line: number;
+  fields: string[];
+}
+
+export interface DelimitedTable {
+  rows: DelimitedRow[];
+  // Строка, где открыта незакрытая кавычка (записи с нее не разобраны); null — файл разобран целиком
+  unclosedQuoteLine: number | null;
+}
+
+// Разобрать текст на записи. Перевод строки внутри кавычек остается частью поля.
+// Пустые строки пропускаются
+export function parseDelimited(text: string, delimiter: string): DelimitedTable {
+  const rows: DelimitedRow[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  // Поле начинается с кавычки только в самом начале
+  let fieldStart = true;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+    fieldStart = true;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && fieldStart) {
+      quoted = true;
+      fieldStart = false;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+      fieldStart = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+      fieldStart = false;
+    }
+  }
+
+  if (quoted) {
+    return { rows, unclosedQuoteLine: rowLine };
+  }
+  if (field !== '' || fields.length > 0) {
+    endRow();
+  }
+  return { rows, unclosedQuoteLine: null };
+}
+
+function quoteField(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+export function formatDelimited(rows: string[][], delimiter: string): string {
+  return rows.map((fields) => fields.map((value) => quoteField(value, delimiter)).join(delimiter)).join('\n') + '\n';
+}
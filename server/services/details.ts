@@ -0,0 +1,66 @@
+// Сведения о слове помимо перевода: часть речи, стилистическая помета, транскрипция и заметки.
+// Показываются после ответа; часть речи используется в подсказке и как фильтр изучения
+import { PartOfSpeech, Register } from '../types';
+
+export const PARTS_OF_SPEECH: PartOfSpeech[] = [
+  'NOUN', 'VERB', 'ADJECTIVE', 'ADVERB', 'PRONOUN', 'PREPOSITION', 'CONJUNCTION', 'INTERJECTION', 'PHRASAL_VERB', 'PHRASE',
+];
+
+export const REGISTERS: Register[] = ['FORMAL', 'INFORMAL', 'LEGAL'];
+
+export interface WordDetailsInput {
+  partOfSpeech?: PartOfSpeech | null;
+  register?: Register | null;
+  transcription?: string;
+  notes?: string;
+}
+
+// Транскрипция хранится без обрамляющих /.../ или [...]: клиент добавляет их при показе
+export function normalizeTranscription(text: string): string {
+  return text.trim().replace(/^[/[]\s*/, '').replace(/\s*[/\]]$/, '');
+}
+
+// Проверить сведения о слове из запроса. Переданы могут быть не все поля; null или пустая строка
+// в части речи и помете означают "не указано". null — значение не из списка или неверного типа
+export function parseWordDetails(raw: {
+  partOfSpeech?: unknown;
+  register?: unknown;
+  transcription?: unknown;
+  notes?: unknown;
+}): WordDetailsInput | null {
+  const details: WordDetailsInput = {};
+
+  if (raw.partOfSpeech !== undefined) {
+    if (raw.partOfSpeech !== null && raw.partOfSpeech !== '' && !PARTS_OF_SPEECH.includes(raw.partOfSpeech as PartOfSpeech)) {
+      return null;
+    }
+    details.partOfSpeech = (raw.partOfSpeech || null) as PartOfSpeech | null;
+  }
+  if (raw.register !== undefined) {
+    if (raw.register !== null && raw.register !== '' && !REGISTERS.includes(raw.register as Register)) {
+      return null;
+    }
+    details.register = (raw.register || null) as Register | null;
+  }
+  if (raw.transcription !== undefined) {
+    if (typeof raw.transcription !== 'string') {
+      return null;
+    }
+    details.transcription = normalizeTranscription(raw.transcription);
+  }
+  if (raw.notes !== undefined) {
+    if (typeof raw.notes !== 'string') {
+      return null;
+    }
+    details.notes = raw.notes.trim();
+  }
+  return details;
+}
+
+// Разобрать часть речи из строки запроса. undefined — не задана, null — неизвестная часть речи
+export function parsePartOfSpeech(raw: string | undefined): PartOfSpeech | undefined | null {
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+  return PARTS_OF_SPEECH.includes(raw as PartOfSpeech) ? raw as PartOfSpeech : null;
+}
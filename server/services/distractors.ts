@@ -0,0 +1,59 @@
+// Подбор неправильных вариантов ответа для упражнения с выбором
+import { levenshteinDistance } from './levenshtein';
+
+export const MIN_CHOICE_OPTIONS = 3;
+export const MAX_CHOICE_OPTIONS = 5;
+export const DEFAULT_CHOICE_OPTIONS = 4;
+
+// Бонусы к похожести кандидата: чем выше итоговая оценка, тем легче перепутать
+const SAME_LENGTH_BONUS = 0.3;
+const RECENTLY_WRONG_BONUS = 0.4;
+// За какой период учитываются неправильные ответы
+export const RECENT_MISTAKES_DAYS = 7;
+
+export interface DistractorCandidate {
+  text: string;
+  // На слово недавно был дан неправильный ответ
+  recentlyWrong: boolean;
+}
+
+// Оценка того, насколько кандидат похож на правильный ответ
+export function confusability(target: string, candidate: DistractorCandidate): number {
+  const a = target.toLowerCase();
+  const b = candidate.text.toLowerCase();
+  const spelling = 1 - levenshteinDistance(a, b) / Math.max(a.length, b.length, 1);
+
+  return spelling +
+    (a.length === b.length ? SAME_LENGTH_BONUS : 0) +
+    (candidate.recentlyWrong ? RECENTLY_WRONG_BONUS : 0);
+}
+
+// Выбрать count неправильных вариантов. Берется случайная выборка из самых
+// похожих кандидатов, чтобы варианты не повторялись от раза к разу
+export function pickDistractors(target: string, candidates: DistractorCandidate[], count: number): string[] {
+  const seen = new Set([target.toLowerCase().trim()]);
+  const unique = candidates.filter((candidate) => {
+    const key = candidate.text.toLowerCase().trim();
+    if (!key || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  const pool = unique
+    .map((candidate) => ({ text: candidate.text, score: confusability(target, candidate) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count * 2);
+
+  return shuffle(pool).slice(0, count).map((candidate) => candidate.text);
+}
+
+export function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,61 @@
+// Поиск повторов слов: совпадение английского текста после нормализации
+// ("To proceed with" = "proceed with") и почти совпадающие написания ("recieve" и "receive")
+import { damerauLevenshteinDistance } from './levenshtein';
+import { normalizeText } from './normalize';
+
+// Похожими считаются только достаточно длинные слова с одной опечаткой:
+// у коротких слов одна буква часто меняет смысл ("leak" и "weak")
+const NEAR_DUPLICATE_MIN_LENGTH = 5;
+const NEAR_DUPLICATE_DISTANCE = 1;
+
+interface DuplicateCandidate {
+  id: number;
+  english: string;
+}
+
+export interface DuplicateMatch<T extends DuplicateCandidate> {
+  word: T;
+  // true — тексты совпадают после нормализации, false — отличаются на опечатку
+  exact: boolean;
+}
+
+export function duplicateKey(english: string): string {
+  return normalizeText(english).text;
+}
+
+function isNearDuplicate(a: string, b: string): boolean {
+  return Math.min(a.length, b.length) >= NEAR_DUPLICATE_MIN_LENGTH
+    && Math.abs(a.length - b.length) <= NEAR_DUPLICATE_DISTANCE
+    && damerauLevenshteinDistance(a, b) <= NEAR_DUPLICATE_DISTANCE;
+}
+
+// Найти среди слов повторы английского текста: сначала точные, затем похожие
+export function findDuplicates<T extends DuplicateCandidate>(english: string, words: T[]): DuplicateMatch<T>[] {
+  const key = duplicateKey(english);
+  const matches = words
+    .map((word) => {
+      const wordKey = duplicateKey(word.english);
+      if (wordKey === key) {
+        return { word, exact: true };
+      }
+      return isNearDuplicate(wordKey, key) ? { word, exact: false } : null;
+    })
+    .filter((match): match is DuplicateMatch<T> => match !== null);
+  return matches.sort((a, b) => Number(b.exact) - Number(a.exact));
+}
+
+// Все пары возможных повторов в словаре (для экрана проверки)
+export function findDuplicatePairs<T extends DuplicateCandidate>(words: T[]): { words: [T, T]; exact: boolean }[] {
+  const keyed = words.map((word) => ({ word, key: duplicateKey(word.english) }));
+  const pairs: { words: [T, T]; exact: boolean }[] = [];
+
+  for (let i = 0; i < keyed.length; i++) {
+    for (let j = i + 1; j < keyed.length; j++) {
+      const exact = keyed[i].key === keyed[j].key;
+      if (exact || isNearDuplicate(keyed[i].key, keyed[j].key)) {
+        pairs.push({ words: [keyed[i].word, keyed[j].word], exact });
+      }
+    }
+  }
+  return pairs.sort((a, b) => Number(b.exact) - Number(a.exact));
+}
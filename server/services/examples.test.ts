@@ -0,0 +1,26 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseExamples } from './examples';
+
+describe('parseExamples', () => {
+  it('trims texts and drops empty pairs and repeats', () => {
+    expect(parseExamples([
+      { english: ' We proceed. ', russian: ' Мы продолжаем. ' },
+      { english: '', russian: '' },
+      { english: 'We proceed.', russian: 'Мы продолжаем.' },
+      { english: 'Proceed with caution.' },
+    ])).toEqual([
+      { english: 'We proceed.', russian: 'Мы продолжаем.' },
+      { english: 'Proceed with caution.', russian: '' },
+    ]);
+  });
+
+  it('rejects an example with a translation but no English text', () => {
+    expect(parseExamples([{ english: 'We proceed.', russian: '' }, { english: '  ', russian: 'Мы продолжаем.' }])).toBeNull();
+  });
+
+  it('rejects non-string texts and a non-array body', () => {
+    expect(parseExamples([{ english: 1, russian: '' }])).toBeNull();
+    expect(parseExamples([{ english: 'We proceed.', russian: 2 }])).toBeNull();
+    expect(parseExamples({ english: 'We proceed.' })).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+// Примеры употребления слова. У слова может быть несколько пар "английское предложение — перевод";
+// между повторениями примеры чередуются, чтобы запоминалось слово, а не одно предложение
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ExampleInput } from '../types';
+import { buildCloze, Cloze } from './cloze';
+
+interface ExampleText {
+  id: number;
+  english: string;
+}
+
+// Порядок примеров слова
+export const EXAMPLE_ORDER = { orderBy: { position: 'asc' } } as const;
+
+// Очистить примеры из запроса: пробелы по краям обрезаются, пустые пары и повторы отбрасываются.
+// null — передан пример без английского текста или с нестроковым переводом
+export function parseExamples(raw: unknown): ExampleInput[] | null {
+  if (!Array.isArray(raw)) {
+    return null;
+  }
+
+  const examples = new Map<string, ExampleInput>();
+  for (const item of raw) {
+    if (typeof item?.english !== 'string' || typeof (item.russian ?? '') !== 'string') {
+      return null;
+    }
+    const english = item.english.trim();
+    const russian = (item.russian ?? '').trim();
+    if (!english && russian) {
+      return null;
+    }
+    if (english) {
+      examples.set(`${english.toLowerCase()}\n${russian.toLowerCase()}`, { english, russian });
+    }
+  }
+  return [...examples.values()];
+}
+
+// Создать примеры слова в заданном порядке
+export function createExamples(examples: ExampleInput[]) {
+  return {
+    create: examples.map((example, position) => ({ ...example, position }))
+  };
+}
+
+// Пример для очередного повторения: номер примера сдвигается с каждым ответом на слово
+export function rotateExample<T>(examples: T[], answerCount: number): T | null {
+  return examples.length > 0 ? examples[answerCount % examples.length] : null;
+}
+
+// Пример слова для очередного повторения. null — у слова нет примеров
+export async function pickExampleId(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  word: { id: number; examples: { id: number }[] }
+): Promise<number | null> {
+  if (word.examples.length === 0) {
+    return null;
+  }
+  const answerCount = await prisma.answer.count({ where: { wordId: word.id } });
+  return rotateExample(word.examples, answerCount)!.id;
+}
+
+// Пример для упражнения с пропуском: чередуются только примеры, в которых найдено слово
+export function rotateClozeExample<T extends ExampleText>(
+  examples: T[],
+  targets: string[],
+  answerCount: number
+): { example: T; cloze: Cloze } | null {
+  const candidates = examples
+    .map((example) => ({ example, cloze: buildCloze(example.english, targets) }))
+    .filter((candidate): candidate is { example: T; cloze: Cloze } => candidate.cloze !== null);
+  return rotateExample(candidates, answerCount);
+}
+
+// Пример, по которому проверяется упражнение с пропуском. Без exampleId (или если пример
+// уже удален) берется первый пример, в котором найдено слово
+export function findClozeExample<T extends ExampleText>(
+  examples: T[],
+  targets: string[],
+  exampleId?: number
+): { example: T; cloze: Cloze } | null {
+  const shown = examples.find((example) => example.id === exampleId);
+  const shownCloze = shown && buildCloze(shown.english, targets);
+  if (shown && shownCloze) {
+    return { example: shown, cloze: shownCloze };
+  }
+  return rotateClozeExample(examples, targets, 0);
+}
+
+// Перенести единственный пример из старых полей exampleEn/exampleRu в таблицу примеров.
+// Перенесенный пример становится первым, старые поля очищаются, поэтому повторный запуск ничего не меняет
+export async function migrateLegacyExamples(prisma: PrismaClient): Promise<number> {
+  const words = await prisma.word.findMany({
+    where: { OR: [{ exampleEn: { not: '' } }, { exampleRu: { not: '' } }] },
+    select: { id: true, exampleEn: true, exampleRu: true }
+  });
+
+  for (const word of words) {
+    await prisma.$transaction([
+      prisma.example.updateMany({ where: { wordId: word.id }, data: { position: { increment: 1 } } }),
+      prisma.example.create({
+        data: { wordId: word.id, english: word.exampleEn.trim(), russian: word.exampleRu.trim(), position: 0 }
+      }),
+      prisma.word.update({ where: { id: word.id }, data: { exampleEn: '', exampleRu: '' } })
+    ]);
+  }
+  return words.length;
+}
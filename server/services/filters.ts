@@ -0,0 +1,54 @@
+// Условия выборки слов по фильтрам списка слов, изучения и сессий. Слова в корзине не выбираются
+import { Prisma } from '@prisma/client';
+import { Direction, MasteryLevel, PartOfSpeech, WordFilter } from '../types';
+import { deckWhere } from './decks';
+import { ACTIVE_WORD } from './trash';
+
+// Поля слова и примеров, в которых ищется текст
+const SEARCH_FIELDS = ['english', 'russian'] as const;
+
+export interface WordWhereFilter extends WordFilter {
+  partOfSpeech?: PartOfSpeech;
+}
+
+export function wordFilterWhere(filter: WordWhereFilter): Prisma.WordWhereInput {
+  const whereClause: Prisma.WordWhereInput = { ...ACTIVE_WORD };
+
+  const text = filter.search?.trim();
+  if (text) {
+    const conditions = SEARCH_FIELDS.map((field) => ({ [field]: { contains: text, mode: 'insensitive' as const } }));
+    whereClause.OR = [...conditions, { examples: { some: { OR: conditions } } }];
+  }
+  if (filter.favorite !== undefined) {
+    whereClause.isFavorite = filter.favorite;
+  }
+  // Изученным считается слово, освоенное (MASTERED) хотя бы в одном направлении
+  if (filter.learned !== undefined) {
+    whereClause.progress = filter.learned
+      ? { some: { mastery: 'MASTERED' } }
+      : { none: { mastery: 'MASTERED' } };
+  }
+  if (filter.deckId !== undefined) {
+    Object.assign(whereClause, deckWhere(filter.deckId));
+  }
+  if (filter.tag) {
+    whereClause.tags = { some: { name: filter.tag } };
+  }
+  if (filter.partOfSpeech) {
+    whereClause.partOfSpeech = filter.partOfSpeech;
+  }
+  return whereClause;
+}
+
+// Уровень владения словом в направлении (NEW — слова без прогресса в этом направлении)
+export function masteryLevelWhere(levels: MasteryLevel[], direction: Direction): Prisma.WordWhereInput {
+  const reviewLevels = levels.filter((level) => level !== 'NEW');
+  const levelConditions: Prisma.WordWhereInput[] = [];
+  if (levels.includes('NEW')) {
+    levelConditions.push({ progress: { none: { direction } } });
+  }
+  if (reviewLevels.length > 0) {
+    levelConditions.push({ progress: { some: { direction, mastery: { in: reviewLevels } } } });
+  }
+  return { OR: levelConditions };
+}
@@ -0,0 +1,302 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import {
+  GradingInput,
+  GradingWord,
+  gradingStrategy,
+  gradingStrategyNames,
+  registerGradingStrategy,
+  resolveGradingStrategy,
+} from './grading';
+import { buildCloze } from './cloze';
+import { buildHint } from './hints';
+import { DEFAULT_NORMALIZATION_RULES } from './normalize';
+import { fullForm } from './variants';
+
+function makeWord(overrides: Partial<GradingWord> = {}): GradingWord {
+  return {
+    id: 1,
+    english: 'proceed (with)',
+    russian: 'приступить к, продолжить',
+    exampleEn: 'We proceeded with the plan.',
+    normalization: DEFAULT_NORMALIZATION_RULES,
+    variants: [],
+    ...overrides,
+  };
+}
+
+function grade(exercise: 'TYPING' | 'CLOZE' | 'MULTIPLE_CHOICE', input: Partial<GradingInput> & { answer: string }) {
+  return gradingStrategy(exercise).grade({ word: makeWord(), direction: 'RU_EN', ...input });
+}
+
+describe('TYPING strategy', () => {
+  it('accepts the primary answer regardless of case and surrounding spaces', () => {
+    const result = grade('TYPING', { answer: '  Proceed With ' });
+    expect(result.verdict).toBe('CORRECT');
+    expect(result.quality).toBe(5);
+    expect(result.normalization).toBeUndefined();
+  });
+
+  it('accepts the answer without the optional part in brackets', () => {
+    expect(grade('TYPING', { answer: 'proceed' }).verdict).toBe('CORRECT');
+  });
+
+  it('reports the accepted variant the answer matched', () => {
+    const word = makeWord({ english: 'colour', variants: [{ text: 'color', direction: 'RU_EN' }] });
+    const result = grade('TYPING', { answer: 'color', word });
+    expect(result.verdict).toBe('CORRECT');
+    expect(result.matchedVariant).toBe('color');
+  });
+
+  it('ignores variants of the other direction', () => {
+    const word = makeWord({ english: 'colour', variants: [{ text: 'color', direction: 'EN_RU' }] });
+    expect(grade('TYPING', { answer: 'color', word }).verdict).not.toBe('CORRECT');
+  });
+
+  it('reports normalization rules that made the answer match', () => {
+    const word = makeWord({ english: 'do not give up' });
+    const result = grade('TYPING', { answer: 'don’t give up!', word });
+    expect(result.verdict).toBe('CORRECT');
+    expect(result.normalization).toEqual(['APOSTROPHES', 'CONTRACTIONS', 'PUNCTUATION', 'WHITESPACE']);
+  });
+
+  it('does not normalize when the word has the rules disabled', () => {
+    const word = makeWord({ english: 'do not give up', normalization: [] });
+    expect(grade('TYPING', { answer: "don't give up", word }).verdict).not.toBe('CORRECT');
+  });
+
+  it('keeps possessive "someone\'s" apart from "someone is"', () => {
+    const word = makeWord({ english: "someone's" });
+    expect(grade('TYPING', { answer: 'someone is', word }).verdict).not.toBe('CORRECT');
+  });
+
+  it('accepts any single meaning of a Russian translation and reports it', () => {
+    const result = grade('TYPING', { answer: 'продолжить', direction: 'EN_RU' });
+    expect(result.verdict).toBe('CORRECT');
+    expect(result.matchedMeaning).toBe('продолжить');
+    expect(result.correctAnswer).toBe('приступить к, продолжить');
+  });
+
+  it('does not report a meaning for a single-meaning translation', () => {
+    const word = makeWord({ russian: 'продолжить' });
+    expect(grade('TYPING', { answer: 'продолжить', direction: 'EN_RU', word }).matchedMeaning).toBeUndefined();
+  });
+
+  it('treats ё and е as the same letter', () => {
+    const word = makeWord({ russian: 'ещё' });
+    expect(grade('TYPING', { answer: 'еще', direction: 'EN_RU', word }).verdict).toBe('CORRECT');
+  });
+
+  it('ignores verb aspect and reflexive endings only when enabled', () => {
+    const strict = makeWord({ russian: 'сделать' });
+    const lenient = makeWord({ russian: 'сделаться', normalization: [...DEFAULT_NORMALIZATION_RULES, 'REFLEXIVE', 'ASPECT'] });
+    expect(grade('TYPING', { answer: 'делать', direction: 'EN_RU', word: strict }).verdict).not.toBe('CORRECT');
+    const result = grade('TYPING', { answer: 'делать', direction: 'EN_RU', word: lenient });
+    expect(result.verdict).toBe('CORRECT');
+    expect(result.normalization).toEqual(['REFLEXIVE', 'ASPECT']);
+  });
+
+  it('recognizes an answer for another word of the synonym group', () => {
+    const synonym = makeWord({ id: 2, english: 'continue', russian: 'продолжить' });
+    const result = grade('TYPING', { answer: 'continue', synonyms: [synonym] });
+    expect(result.verdict).toBe('SYNONYM');
+    expect(result.synonymWordId).toBe(2);
+    expect(result.quality).toBeNull();
+  });
+
+  it('prefers the word itself over a synonym with the same answer', () => {
+    const synonym = makeWord({ id: 2 });
+    expect(grade('TYPING', { answer: 'proceed', synonyms: [synonym] }).verdict).toBe('CORRECT');
+  });
+
+  it('treats the beginning of the answer as partial and counts the remaining letters', () => {
+    const result = grade('TYPING', { answer: 'proc' });
+    expect(result.verdict).toBe('PARTIAL');
+    expect(result.quality).toBeNull();
+    expect(result.hint).toContain('8 букв осталось');
+  });
+
+  it('treats a fragment from the middle of the answer as partial', () => {
+    expect(grade('TYPING', { answer: 'ceed' }).verdict).toBe('PARTIAL');
+  });
+
+  it('reports a typo with a character diff', () => {
+    const word = makeWord({ english: 'receive' });
+    const result = grade('TYPING', { answer: 'recieve', word });
+    expect(result.verdict).toBe('PARTIAL');
+    expect(result.diff?.some((segment) => segment.type === 'SWAPPED')).toBe(true);
+  });
+
+  it('does not allow two typos in a short word', () => {
+    const word = makeWord({ english: 'cat' });
+    expect(grade('TYPING', { answer: 'cup', word }).verdict).toBe('WRONG');
+  });
+
+  it('rejects an answer that is only punctuation', () => {
+    const result = grade('TYPING', { answer: '...' });
+    expect(result.verdict).toBe('WRONG');
+    expect(result.quality).toBe(1);
+  });
+
+  it('lowers the quality of a correct answer for used hints but keeps it passing', () => {
+    expect(grade('TYPING', { answer: 'proceed', hints: ['FIRST_LETTER'] }).quality).toBe(4);
+    expect(grade('TYPING', { answer: 'proceed', hints: ['FIRST_LETTER', 'LETTER_COUNT', 'MASK', 'PART_OF_SPEECH'] }).quality).toBe(3);
+  });
+});
+
+describe('STRICT strategy', () => {
+  const strict = gradingStrategy('TYPING', 'STRICT');
+
+  it('accepts exact answers and variants', () => {
+    expect(strict.grade({ answer: 'Proceed with', word: makeWord(), direction: 'RU_EN' }).verdict).toBe('CORRECT');
+  });
+
+  it('ignores normalization rules and does not recognize typos', () => {
+    const word = makeWord({ english: 'do not give up' });
+    expect(strict.grade({ answer: "don't give up", word, direction: 'RU_EN' }).verdict).toBe('WRONG');
+    expect(strict.grade({ answer: 'do not giev up', word, direction: 'RU_EN' }).verdict).toBe('WRONG');
+  });
+});
+
+describe('CLOZE strategy', () => {
+  const word = makeWord({ english: 'proceed with' });
+
+  it('expects the word form used in the example', () => {
+    const result = grade('CLOZE', { answer: 'proceeded with', word });
+    expect(result.verdict).toBe('CORRECT');
+    expect(result.correctAnswer).toBe('proceeded with');
+  });
+
+  it('treats the dictionary form as partial', () => {
+    const result = grade('CLOZE', { answer: 'proceed with', word });
+    expect(result.verdict).toBe('PARTIAL');
+    expect(result.hint).toContain('нужную форму');
+  });
+
+  it('reports a typo in the word form', () => {
+    const result = grade('CLOZE', { answer: 'proceded with', word });
+    expect(result.verdict).toBe('PARTIAL');
+    expect(result.diff).toBeDefined();
+  });
+});
+
+describe('cloze with optional parts and variants', () => {
+  it('finds the full form of "proceed (with)" in the example', () => {
+    expect(buildCloze('We proceeded with the plan.', ['proceed (with)'])).toEqual({
+      text: 'We _____ _____ the plan.',
+      answer: 'proceeded with',
+      blanks: 2,
+    });
+    expect(grade('CLOZE', { answer: 'proceeded with' }).verdict).toBe('CORRECT');
+    expect(grade('CLOZE', { answer: 'proceed with' }).verdict).toBe('PARTIAL');
+  });
+
+  it('falls back to the form without the optional part', () => {
+    const word = makeWord({ exampleEn: 'Please proceed.' });
+    expect(buildCloze(word.exampleEn, [word.english])?.answer).toBe('proceed');
+    expect(grade('CLOZE', { answer: 'proceed', word }).correctAnswer).toBe('proceed');
+  });
+
+  it('tries accepted English variants of the word', () => {
+    const word = makeWord({ english: 'colour', exampleEn: 'Pick a color.', variants: [{ text: 'color', direction: 'RU_EN' }] });
+    const result = grade('CLOZE', { answer: 'color', word });
+    expect(result.verdict).toBe('CORRECT');
+    expect(result.correctAnswer).toBe('color');
+  });
+
+  it('counts letters of the full form without brackets in hints', () => {
+    const word = makeWord();
+    expect(fullForm(word.english)).toBe('proceed with');
+    expect(buildHint('LETTER_COUNT', fullForm(word.english), word)).toBe('Букв: 11, слов: 2');
+    expect(buildHint('MASK', fullForm(word.english), word)).toBe('__o_ee_ _i__');
+  });
+});
+
+describe('CHOICE strategy', () => {
+  it('credits a correct choice weaker than a typed answer', () => {
+    const result = grade('MULTIPLE_CHOICE', { answer: 'proceed (with)' });
+    expect(result.verdict).toBe('CORRECT');
+    expect(result.quality).toBe(4);
+  });
+
+  it('has no partial answers', () => {
+    expect(grade('MULTIPLE_CHOICE', { answer: 'proceed' }).verdict).toBe('WRONG');
+  });
+});
+
+describe('strategy registry', () => {
+  // Регистрации в тестах отменяются, чтобы не влиять на остальные тесты
+  const unregister: (() => void)[] = [];
+  afterEach(() => {
+    unregister.splice(0).reverse().forEach((undo) => undo());
+  });
+
+  it('selects the default strategy for each exercise', () => {
+    expect(gradingStrategy('TYPING').name).toBe('TYPING');
+    expect(gradingStrategy('CLOZE').name).toBe('CLOZE');
+    expect(gradingStrategy('MULTIPLE_CHOICE').name).toBe('CHOICE');
+  });
+
+  it('ignores an override that does not fit the exercise or is unknown', () => {
+    expect(gradingStrategy('CLOZE', 'STRICT').name).toBe('CLOZE');
+    expect(gradingStrategy('TYPING', 'UNKNOWN').name).toBe('TYPING');
+  });
+
+  it('lets new strategies be registered', () => {
+    unregister.push(registerGradingStrategy({
+      name: 'ANYTHING_GOES',
+      exercises: ['TYPING'],
+      grade: (input) => ({ verdict: 'CORRECT', quality: 5, correctAnswer: input.word.english }),
+    }));
+    expect(gradingStrategyNames('TYPING')).toContain('ANYTHING_GOES');
+    expect(gradingStrategy('TYPING', 'ANYTHING_GOES').grade({ answer: 'x', word: makeWord(), direction: 'RU_EN' }).verdict)
+      .toBe('CORRECT');
+  });
+
+  it('restores the registry when a registration is undone', () => {
+    const strict = gradingStrategy('TYPING', 'STRICT');
+    const undo = registerGradingStrategy({ ...strict, exercises: ['CLOZE'] });
+    expect(gradingStrategy('CLOZE', 'STRICT').name).toBe('STRICT');
+    undo();
+    expect(gradingStrategy('TYPING', 'STRICT')).toBe(strict);
+    expect(gradingStrategyNames()).not.toContain('ANYTHING_GOES');
+  });
+});
+
+describe('deck grading strategy', () => {
+  // Колоды и сессии вместо базы данных
+  const decks = [
+    { id: 1, gradingStrategy: 'STRICT' },
+    { id: 2, gradingStrategy: null },
+  ];
+  const sessions = [
+    { id: 10, deckId: 1 },
+    { id: 11, deckId: null },
+  ];
+  const client = {
+    deck: { findUnique: async ({ where }: { where: { id: number } }) => decks.find((deck) => deck.id === where.id) ?? null },
+    session: { findUnique: async ({ where }: { where: { id: number } }) => sessions.find((session) => session.id === where.id) ?? null },
+  } as unknown as Parameters<typeof resolveGradingStrategy>[0];
+
+  it('uses the strategy of the deck the word is studied from', async () => {
+    expect((await resolveGradingStrategy(client, 'TYPING', { deckId: 1 }))?.name).toBe('STRICT');
+    expect((await resolveGradingStrategy(client, 'TYPING', { deckId: 2 }))?.name).toBe('TYPING');
+  });
+
+  it('falls back to the deck of the session', async () => {
+    expect((await resolveGradingStrategy(client, 'TYPING', { sessionId: 10 }))?.name).toBe('STRICT');
+    expect((await resolveGradingStrategy(client, 'TYPING', { sessionId: 11 }))?.name).toBe('TYPING');
+  });
+
+  it('keeps the default strategy for exercises the deck strategy does not fit', async () => {
+    expect((await resolveGradingStrategy(client, 'CLOZE', { deckId: 1 }))?.name).toBe('CLOZE');
+  });
+
+  it('grades strictly in a strict deck', async () => {
+    const strategy = await resolveGradingStrategy(client, 'TYPING', { deckId: 1 });
+    expect(strategy?.grade({ answer: 'proceed with!', word: makeWord(), direction: 'RU_EN' }).verdict).toBe('WRONG');
+  });
+
+  it('returns null for an unknown deck', async () => {
+    expect(await resolveGradingStrategy(client, 'TYPING', { deckId: 99 })).toBeNull();
+  });
+});
@@ -0,0 +1,289 @@
+// Стратегии проверки ответа. Каждая стратегия по ответу и слову выносит вердикт
+// (верно / частично / синоним / неверно) и оценку качества для планировщика.
+// Стратегия выбирается по типу упражнения; колода может задать свою стратегию
+import { PrismaClient } from '@prisma/client';
+import { AnswerDiffSegment, Direction, ExerciseType, GradingStrategyInfo, HintType, NormalizationRule } from '../types';
+import { buildCloze, clozeTargets } from './cloze';
+import { normalizeText, NORMALIZATION_RULES } from './normalize';
+import { russianMeanings } from './russian';
+import { answerQuality } from './scheduler';
+import { describeTypo, findTypo } from './typos';
+import { acceptedAnswers, fullForm, matchAcceptedAnswer } from './variants';
+
+export type GradeVerdict = 'CORRECT' | 'PARTIAL' | 'SYNONYM' | 'WRONG';
+
+export interface GradingWord {
+  id: number;
+  english: string;
+  russian: string;
+  // Английский пример, из которого построен пропуск (для упражнения CLOZE)
+  exampleEn: string;
+  normalization: NormalizationRule[];
+  variants?: { text: string; direction: Direction }[];
+}
+
+export interface GradingInput {
+  answer: string;
+  word: GradingWord;
+  direction: Direction;
+  hints?: HintType[];
+  // Другие слова из группы синонимов проверяемого слова
+  synonyms?: GradingWord[];
+}
+
+export interface Grade {
+  verdict: GradeVerdict;
+  // Оценка для планировщика; null — ответ не влияет на расписание
+  quality: number | null;
+  // Правильный ответ, который показывается пользователю
+  correctAnswer: string;
+  hint?: string;
+  diff?: AnswerDiffSegment[];
+  matchedVariant?: string;
+  matchedMeaning?: string;
+  normalization?: NormalizationRule[];
+  // Слово-синоним, с ответом на которое совпал ввод
+  synonymWordId?: number;
+}
+
+export interface GradingStrategy {
+  name: string;
+  // Упражнения, для которых подходит стратегия
+  exercises: ExerciseType[];
+  grade(input: GradingInput): Grade;
+}
+
+// Итоговый вердикт с оценкой качества: подсказки снижают оценку правильного ответа
+function verdict(
+  exercise: ExerciseType,
+  input: GradingInput,
+  result: Omit<Grade, 'quality'>
+): Grade {
+  const quality = answerQuality({
+    isCorrect: result.verdict === 'CORRECT',
+    isPartial: result.verdict === 'PARTIAL',
+    isSynonym: result.verdict === 'SYNONYM',
+    exercise,
+    hints: input.hints,
+  });
+  return { ...result, quality };
+}
+
+function expectedAnswer(word: GradingWord, direction: Direction): string {
+  return direction === 'EN_RU' ? word.russian : word.english;
+}
+
+// Ввод с клавиатуры: принятые варианты с нормализацией, синонимы,
+// начало слова, часть ответа и опечатки
+const typingStrategy: GradingStrategy = {
+  name: 'TYPING',
+  exercises: ['TYPING'],
+  grade(input) {
+    const { word, direction } = input;
+    const correctAnswer = expectedAnswer(word, direction);
+    const userAnswer = input.answer.toLowerCase().trim();
+    const accepted = acceptedAnswers(correctAnswer, word.variants ?? [], direction);
+
+    const matched = matchAcceptedAnswer(userAnswer, accepted, word.normalization);
+    if (matched) {
+      const isMeaning = matched.accepted.isPrimary && direction === 'EN_RU' && russianMeanings(word.russian).length > 1;
+      return verdict('TYPING', input, {
+        verdict: 'CORRECT',
+        correctAnswer,
+        matchedVariant: matched.accepted.isPrimary ? undefined : matched.accepted.source,
+        // Для многозначного перевода сообщить, какое из значений названо
+        matchedMeaning: isMeaning ? matched.accepted.source : undefined,
+        normalization: matched.normalization.length ? matched.normalization : undefined,
+      });
+    }
+
+    // Ответ совпадает с ответом для другого слова из той же группы синонимов
+    const synonym = (input.synonyms ?? []).find((candidate) => matchAcceptedAnswer(
+      userAnswer,
+      acceptedAnswers(expectedAnswer(candidate, direction), candidate.variants ?? [], direction),
+      candidate.normalization
+    ));
+    if (synonym) {
+      return verdict('TYPING', input, {
+        verdict: 'SYNONYM',
+        correctAnswer,
+        hint: 'Это синоним. Попробуйте другое слово.',
+        synonymWordId: synonym.id,
+      });
+    }
+
+    const normalizedAnswer = normalizeText(userAnswer, word.normalization).text;
+    if (normalizedAnswer.length === 0) {
+      return verdict('TYPING', input, { verdict: 'WRONG', correctAnswer });
+    }
+
+    const forms = accepted.map((candidate) => normalizeText(candidate.form, word.normalization).text);
+    // Ответ — начало правильного слова
+    const prefixOf = forms.find((form) => form.startsWith(normalizedAnswer));
+    if (prefixOf) {
+      return verdict('TYPING', input, {
+        verdict: 'PARTIAL',
+        correctAnswer,
+        hint: `Правильно! Продолжайте... (${prefixOf.length - normalizedAnswer.length} букв осталось)`,
+      });
+    }
+    // Правильный ответ содержит введенный текст
+    if (forms.some((form) => form.includes(normalizedAnswer))) {
+      return verdict('TYPING', input, {
+        verdict: 'PARTIAL',
+        correctAnswer,
+        hint: 'Частично правильно! Попробуйте еще раз',
+      });
+    }
+    // Опечатка: порог зависит от длины слова
+    const typo = findTypo(normalizedAnswer, forms);
+    if (typo) {
+      return verdict('TYPING', input, {
+        verdict: 'PARTIAL',
+        correctAnswer,
+        hint: describeTypo(typo.diff),
+        diff: typo.diff,
+      });
+    }
+    return verdict('TYPING', input, { verdict: 'WRONG', correctAnswer });
+  },
+};
+
+// Строгая проверка ввода: засчитываются только принятые варианты без нормализации,
+// частичные ответы и опечатки не распознаются
+const strictStrategy: GradingStrategy = {
+  name: 'STRICT',
+  exercises: ['TYPING'],
+  grade(input) {
+    const { word, direction } = input;
+    const correctAnswer = expectedAnswer(word, direction);
+    const accepted = acceptedAnswers(correctAnswer, word.variants ?? [], direction);
+    const matched = matchAcceptedAnswer(input.answer, accepted, []);
+    return verdict('TYPING', input, {
+      verdict: matched ? 'CORRECT' : 'WRONG',
+      correctAnswer,
+      matchedVariant: matched && !matched.accepted.isPrimary ? matched.accepted.source : undefined,
+    });
+  },
+};
+
+// "Заполните пропуск": ожидается словоформа из примера (например, "proceeded with"),
+// словарная форма считается частично верным ответом
+const clozeStrategy: GradingStrategy = {
+  name: 'CLOZE',
+  exercises: ['CLOZE'],
+  grade(input) {
+    const { word } = input;
+    const correctAnswer = buildCloze(word.exampleEn, clozeTargets(word))?.answer ?? fullForm(word.english);
+    const userAnswer = input.answer.toLowerCase().trim();
+    const normalized = normalizeText(userAnswer, word.normalization);
+    const expected = normalizeText(correctAnswer, word.normalization);
+
+    if (userAnswer === correctAnswer.toLowerCase()) {
+      return verdict('CLOZE', input, { verdict: 'CORRECT', correctAnswer });
+    }
+    if (normalized.text === expected.text) {
+      return verdict('CLOZE', input, {
+        verdict: 'CORRECT',
+        correctAnswer,
+        normalization: NORMALIZATION_RULES
+          .filter((rule) => normalized.applied.includes(rule) || expected.applied.includes(rule)),
+      });
+    }
+    // Словарная форма или принятый вариант английского ответа, но не в той форме, что в примере
+    if (matchAcceptedAnswer(userAnswer, acceptedAnswers(word.english, word.variants ?? [], 'RU_EN'), word.normalization)) {
+      return verdict('CLOZE', input, {
+        verdict: 'PARTIAL',
+        correctAnswer,
+        hint: 'Слово верное! Поставьте его в нужную форму',
+      });
+    }
+    const typo = findTypo(normalized.text, [expected.text]);
+    if (typo) {
+      return verdict('CLOZE', input, {
+        verdict: 'PARTIAL',
+        correctAnswer,
+        hint: describeTypo(typo.diff),
+        diff: typo.diff,
+      });
+    }
+    return verdict('CLOZE', input, { verdict: 'WRONG', correctAnswer });
+  },
+};
+
+// Выбор варианта: выбранный вариант должен совпасть с переводом
+const choiceStrategy: GradingStrategy = {
+  name: 'CHOICE',
+  exercises: ['MULTIPLE_CHOICE'],
+  grade(input) {
+    const correctAnswer = expectedAnswer(input.word, input.direction);
+    const isCorrect = input.answer.toLowerCase().trim() === correctAnswer.toLowerCase().trim();
+    return verdict('MULTIPLE_CHOICE', input, { verdict: isCorrect ? 'CORRECT' : 'WRONG', correctAnswer });
+  },
+};
+
+const strategies = new Map<string, GradingStrategy>();
+
+// Зарегистрировать стратегию (стратегия с тем же именем заменяется).
+// Возвращает функцию, которая отменяет регистрацию и возвращает замененную стратегию
+export function registerGradingStrategy(strategy: GradingStrategy): () => void {
+  const replaced = strategies.get(strategy.name);
+  strategies.set(strategy.name, strategy);
+  return () => {
+    if (replaced) {
+      strategies.set(strategy.name, replaced);
+    } else {
+      strategies.delete(strategy.name);
+    }
+  };
+}
+
+[typingStrategy, strictStrategy, clozeStrategy, choiceStrategy].forEach(registerGradingStrategy);
+
+// Стратегии по умолчанию для каждого типа упражнения
+const DEFAULT_STRATEGIES: Record<ExerciseType, string> = {
+  TYPING: 'TYPING',
+  CLOZE: 'CLOZE',
+  MULTIPLE_CHOICE: 'CHOICE',
+};
+
+export function gradingStrategyNames(exercise?: ExerciseType): string[] {
+  return [...strategies.values()]
+    .filter((strategy) => !exercise || strategy.exercises.includes(exercise))
+    .map((strategy) => strategy.name);
+}
+
+export function gradingStrategyInfos(): GradingStrategyInfo[] {
+  return [...strategies.values()].map(({ name, exercises }) => ({ name, exercises }));
+}
+
+// Выбрать стратегию для упражнения. Переопределение (например, из настроек колоды)
+// применяется, только если стратегия подходит для этого упражнения
+export function gradingStrategy(exercise: ExerciseType, override?: string | null): GradingStrategy {
+  const preferred = override ? strategies.get(override) : undefined;
+  if (preferred && preferred.exercises.includes(exercise)) {
+    return preferred;
+  }
+  return strategies.get(DEFAULT_STRATEGIES[exercise])!;
+}
+
+type GradingClient = Pick<PrismaClient, 'deck' | 'session'>;
+
+// Стратегия для ответа с учетом настроек колоды: колода из запроса, иначе колода сессии.
+// null — колода не найдена
+export async function resolveGradingStrategy(
+  prisma: GradingClient,
+  exercise: ExerciseType,
+  source: { deckId?: number; sessionId?: number }
+): Promise<GradingStrategy | null> {
+  let { deckId } = source;
+  if (deckId === undefined && source.sessionId) {
+    const session = await prisma.session.findUnique({ where: { id: source.sessionId }, select: { deckId: true } });
+    deckId = session?.deckId ?? undefined;
+  }
+  if (deckId === undefined) {
+    return gradingStrategy(exercise);
+  }
+  const deck = await prisma.deck.findUnique({ where: { id: deckId }, select: { gradingStrategy: true } });
+  return deck && gradingStrategy(exercise, deck.gradingStrategy);
+}
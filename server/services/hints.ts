@@ -0,0 +1,100 @@
+// Подсказки, которые можно запросить до ответа. Выдаются по нарастающей:
+// первая буква → количество букв → маска с гласными → часть речи
+import { HintType, PartOfSpeech } from '../types';
+
+export const HINT_TYPES: HintType[] = ['FIRST_LETTER', 'LETTER_COUNT', 'MASK', 'PART_OF_SPEECH'];
+
+// Насколько каждая подсказка снижает оценку правильного ответа (шкала SM-2)
+export const HINT_PENALTIES: Record<HintType, number> = {
+  FIRST_LETTER: 1,
+  LETTER_COUNT: 1,
+  MASK: 2,
+  PART_OF_SPEECH: 1,
+};
+
+const PART_OF_SPEECH_LABELS: Record<PartOfSpeech, string> = {
+  NOUN: 'существительное',
+  VERB: 'глагол',
+  ADJECTIVE: 'прилагательное',
+  ADVERB: 'наречие',
+  PRONOUN: 'местоимение',
+  PREPOSITION: 'предлог',
+  CONJUNCTION: 'союз',
+  INTERJECTION: 'междометие',
+  PHRASAL_VERB: 'фразовый глагол',
+  PHRASE: 'фраза',
+};
+
+const VOWELS = /[aeiouyаеёиоуыэюя]/i;
+const LETTER = /\p{L}/u;
+
+const RUSSIAN_VERB = /([аеёиоуыэюя]ть|ти|чь)(ся|сь)?$/;
+// -ие не учитывается: так чаще оканчиваются существительные (отвлечение, здание)
+const RUSSIAN_ADJECTIVE = /(ый|ий|ой|ая|яя|ое|ее|ые)$/;
+const RUSSIAN_ADVERB = /[оеи]$/;
+
+// Маска ответа: гласные, пробелы и знаки препинания видны, согласные скрыты
+export function maskAnswer(target: string): string {
+  return [...target].map((char) => (LETTER.test(char) && !VOWELS.test(char) ? '_' : char)).join('');
+}
+
+// Часть речи определяется по английскому слову и окончанию первого значения русского перевода
+export function guessPartOfSpeech(english: string, russian: string): string {
+  const meaning = russian.split(/[,;]/)[0].trim().toLowerCase();
+  const russianWords = meaning.split(/\s+/);
+  const lastRussianWord = russianWords[russianWords.length - 1];
+  const phrase = english.trim().toLowerCase();
+  const isPhrase = phrase.includes(' ');
+
+  if (phrase.startsWith('to ') || russianWords.some((token) => RUSSIAN_VERB.test(token))) {
+    return isPhrase ? 'глагольная фраза' : 'глагол';
+  }
+  if (isPhrase) {
+    return 'фраза';
+  }
+  if (RUSSIAN_ADJECTIVE.test(lastRussianWord)) {
+    return 'прилагательное';
+  }
+  if (phrase.endsWith('ly') && RUSSIAN_ADVERB.test(lastRussianWord)) {
+    return 'наречие';
+  }
+  return 'существительное';
+}
+
+// Текст подсказки для ожидаемого ответа
+export function buildHint(
+  type: HintType,
+  target: string,
+  word: { english: string; russian: string; partOfSpeech?: PartOfSpeech | null }
+): string {
+  switch (type) {
+    case 'FIRST_LETTER':
+      return `Первая буква: «${target.trim()[0] ?? ''}»`;
+    case 'LETTER_COUNT': {
+      const words = target.trim().split(/\s+/);
+      const letters = [...target].filter((char) => LETTER.test(char)).length;
+      return words.length > 1 ? `Букв: ${letters}, слов: ${words.length}` : `Букв: ${letters}`;
+    }
+    case 'MASK':
+      return maskAnswer(target.trim());
+    // Указанная у слова часть речи важнее угаданной по окончаниям
+    case 'PART_OF_SPEECH':
+      return `Часть речи: ${word.partOfSpeech ? PART_OF_SPEECH_LABELS[word.partOfSpeech] : guessPartOfSpeech(word.english, word.russian)}`;
+  }
+}
+
+// Суммарный штраф за использованные подсказки (каждая учитывается один раз)
+export function hintPenalty(hints: HintType[]): number {
+  return [...new Set(hints)].reduce((sum, hint) => sum + HINT_PENALTIES[hint], 0);
+}
+
+// Разобрать список подсказок из тела запроса. null — передан неизвестный тип
+export function parseHints(raw: unknown): HintType[] | null {
+  if (raw === undefined) {
+    return [];
+  }
+  if (!Array.isArray(raw) || !raw.every((hint) => HINT_TYPES.includes(hint))) {
+    return null;
+  }
+  return [...new Set(raw as HintType[])];
+}
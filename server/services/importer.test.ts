@@ -0,0 +1,128 @@
+import { describe, expect, it } from '@jest/globals';
+import { ImportWordData, exportTable, parseTable } from './importer';
+
+function makeWord(overrides: Partial<ImportWordData> = {}) {
+  return {
+    english: 'proceed (with)',
+    russian: 'приступить к, продолжить',
+    examples: [],
+    tags: [],
+    sourceText: '',
+    sourceUrl: '',
+    isFavorite: false,
+    ...overrides,
+  };
+}
+
+const data = (english: string, russian: string, overrides: Partial<ImportWordData> = {}): ImportWordData => ({
+  english,
+  russian,
+  examples: [],
+  tags: [],
+  sourceText: '',
+  sourceUrl: '',
+  ...overrides,
+});
+
+describe('parseTable', () => {
+  it('reads the default column order without a header', () => {
+    const candidates = parseTable('proceed,продолжить,We proceed.,Мы продолжаем.,yes,verbs contract\n', 'csv');
+
+    expect(candidates).toEqual([{
+      row: 1,
+      data: data('proceed', 'продолжить', {
+        examples: [{ english: 'We proceed.', russian: 'Мы продолжаем.' }],
+        tags: ['verbs', 'contract'],
+        isFavorite: true,
+      }),
+    }]);
+  });
+
+  it('maps columns by header names and Anki field aliases', () => {
+    const candidates = parseTable('Back,Notes,Front\nпродолжить,x,proceed\n', 'csv', { header: true });
+
+    expect(candidates).toEqual([{ row: 2, data: data('proceed', 'продолжить') }]);
+  });
+
+  it('ignores a byte order mark before the header', () => {
+    const candidates = parseTable('\uFEFFenglish,russian\nproceed,продолжить\n', 'csv', { header: true });
+
+    expect(candidates).toEqual([{ row: 2, data: data('proceed', 'продолжить') }]);
+  });
+
+  it('uses the explicit column mapping and skips null columns', () => {
+    const candidates = parseTable('1\tпродолжить\tproceed\n', 'tsv', { columns: [null, 'russian', 'english'] });
+
+    expect(candidates).toEqual([{ row: 1, data: data('proceed', 'продолжить') }]);
+  });
+
+  it('reads quoted cells with delimiters, quotes and line breaks', () => {
+    const candidates = parseTable('"proceed, go on","""продолжить""\nидти дальше"\nstop,остановиться\n', 'csv');
+
+    expect(candidates).toEqual([
+      { row: 1, data: data('proceed, go on', '"продолжить"\nидти дальше') },
+      { row: 3, data: data('stop', 'остановиться') },
+    ]);
+  });
+
+  it('reads the Anki header lines and counts rows from the file start', () => {
+    const content = [
+      '#separator:tab',
+      '#html:false',
+      '#columns:Front\tBack\tTags',
+      '#tags column:3',
+      'proceed\tпродолжить\tverbs',
+    ].join('\n');
+
+    expect(parseTable(content, 'tsv')).toEqual([{ row: 5, data: data('proceed', 'продолжить', { tags: ['verbs'] }) }]);
+  });
+
+  it('takes tags from the Anki tags column instead of the named one', () => {
+    const content = '#columns:english\ttags\trussian\tcomment\n#tags column:4\nproceed\tx\tпродолжить\tverbs\n';
+
+    expect(parseTable(content, 'tsv')).toEqual([{ row: 3, data: data('proceed', 'продолжить', { tags: ['verbs'] }) }]);
+  });
+
+  it('rejects a mapping without both texts or with a repeated field', () => {
+    expect(parseTable('proceed\n', 'csv', { columns: ['english'] })).toBeNull();
+    expect(parseTable('a,b,c\n', 'csv', { columns: ['english', 'russian', 'english'] })).toBeNull();
+    expect(parseTable('foo,bar\nproceed,продолжить\n', 'csv', { header: true })).toBeNull();
+  });
+
+  it('skips examples without an English sentence', () => {
+    const candidates = parseTable('proceed,продолжить,"\nWe proceed.","Без английского\nМы продолжаем."\n', 'csv');
+
+    expect(candidates![0].data.examples).toEqual([{ english: 'We proceed.', russian: 'Мы продолжаем.' }]);
+  });
+
+  it('reports an invalid favorite value and an unclosed quote on their rows', () => {
+    const candidates = parseTable('#html:false\nproceed,продолжить,,,maybe\nstop,"остановиться\n', 'csv');
+
+    expect(candidates).toEqual([
+      { row: 2, data: data('proceed', 'продолжить'), error: 'Invalid favorite value "maybe"' },
+      { row: 3, data: data('', ''), error: 'Unclosed quote' },
+    ]);
+  });
+});
+
+describe('table export', () => {
+  const examples = [
+    { english: 'We proceeded with the plan.', russian: 'Мы приступили к плану.' },
+    { english: 'Proceed with caution.', russian: '' },
+    { english: 'Please proceed.', russian: 'Пожалуйста, продолжайте.' },
+  ];
+
+  it.each(['csv', 'tsv'] as const)('keeps every example when %s is imported back', (format) => {
+    const word = makeWord({ examples, tags: ['contract', 'verbs'], isFavorite: true });
+    const candidates = parseTable(exportTable([word], format), format, { header: format === 'csv' });
+
+    expect(candidates).toEqual([{ row: expect.any(Number), data: word }]);
+  });
+
+  it('writes a line break inside a sentence as a space so examples stay paired', () => {
+    const word = makeWord({ examples: [{ english: 'Proceed\nwith caution.', russian: 'Осторожно.' }, examples[0]] });
+    const [candidate] = parseTable(exportTable([word], 'tsv'), 'tsv')!;
+
+    expect(candidate.data.examples).toEqual([{ english: 'Proceed with caution.', russian: 'Осторожно.' }, examples[0]]);
+  });
+});
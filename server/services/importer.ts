@@ -0,0 +1,351 @@
+// Импорт и экспорт слов: экспорт переводов Reverso (формат translations.json), CSV и TSV (Anki).
+// Слова сопоставляются с существующими по английскому тексту: новые добавляются,
+// у найденных дополняется перевод, метки, новые примеры и пустой источник, остальное пропускается.
+// История ответов при импорте не меняется
+import { ExampleInput, ImportItem, ReversoEntry, TableFormat, WordColumn } from '../types';
+import { formatDelimited, parseDelimited } from './delimited';
+import { duplicateKey, findDuplicates } from './duplicates';
+import { russianMeanings } from './russian';
+import { splitTags } from './tags';
+
+export interface ImportWordData {
+  english: string;
+  russian: string;
+  examples: ExampleInput[];
+  // Названия меток
+  tags: string[];
+  sourceText: string;
+  sourceUrl: string;
+  // Не задано — признак избранного не меняется
+  isFavorite?: boolean;
+}
+
+// Запись файла импорта, приведенная к слову
+export interface ImportCandidate {
+  // Номер записи в файле (для CSV/TSV — номер строки)
+  row: number;
+  data: ImportWordData;
+  // Ошибка разбора записи; такая запись не импортируется
+  error?: string;
+}
+
+interface ExistingWord extends ImportWordData {
+  id: number;
+}
+
+export interface ImportPlan {
+  // Новые слова (повторы внутри файла уже объединены)
+  add: ImportWordData[];
+  // Изменения существующих слов: только измененные поля
+  update: { id: number; data: Partial<ImportWordData> }[];
+  // Отчет по каждой записи файла
+  items: ImportItem[];
+}
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Пример из пары предложений; без английского предложения примера нет
+function examplePair(english: string, russian: string): ExampleInput[] {
+  return english ? [{ english, russian }] : [];
+}
+
+// Несколько примеров в ячейках exampleEn/exampleRu разделяются переводом строки:
+// строки двух столбцов идут парами
+const EXAMPLE_SEPARATOR = '\n';
+
+function examplePairs(english: string, russian: string): ExampleInput[] {
+  const englishLines = english.split(/\r?\n/);
+  const russianLines = russian.split(/\r?\n/);
+  return Array.from({ length: Math.max(englishLines.length, russianLines.length) }, (_, index) => (
+    examplePair((englishLines[index] ?? '').trim(), (russianLines[index] ?? '').trim())
+  )).flat();
+}
+
+// Метки Reverso ("Tags / Comments") перечисляются через запятую, метки Anki — через пробел
+const REVERSO_TAG_SEPARATOR = /[,;]/;
+const TABLE_TAG_SEPARATOR = /\s+/;
+
+// Привести запись к слову. Записи с русским текстом поиска (ru → en) разворачиваются
+export function entryToWord(entry: ReversoEntry): ImportWordData {
+  const reversed = text(entry['Search language']) === 'ru' && text(entry['Translation language']) === 'en';
+  const source = {
+    tags: splitTags(text(entry['Tags / Comments']), REVERSO_TAG_SEPARATOR),
+    sourceText: text(entry['Source text']),
+    sourceUrl: text(entry['Document / URL']),
+  };
+  return reversed
+    ? {
+      english: text(entry['Translation text']),
+      russian: text(entry['Search text']),
+      examples: examplePair(text(entry['Translation example']), text(entry['Search example'])),
+      ...source,
+    }
+    : {
+      english: text(entry['Search text']),
+      russian: text(entry['Translation text']),
+      examples: examplePair(text(entry['Search example']), text(entry['Translation example'])),
+      ...source,
+    };
+}
+
+// Дополнить перевод значениями, которых в нем еще нет
+function mergeTranslation(current: string, incoming: string): string {
+  const known = russianMeanings(current);
+  const added = russianMeanings(incoming).filter((meaning) => !known.includes(meaning));
+  return added.length > 0 ? [current, ...added].join(', ') : current;
+}
+
+// Поля, которые импорт меняет у слова: новые значения перевода, примеры и метки, отсутствующий источник.
+// В examples и tags возвращается полный список
+function mergeWord(current: ImportWordData, incoming: ImportWordData): Partial<ImportWordData> {
+  const changes: Partial<ImportWordData> = {};
+  const russian = mergeTranslation(current.russian, incoming.russian);
+  if (russian !== current.russian) {
+    changes.russian = russian;
+  }
+  // Пример считается известным, если у слова уже есть такое же английское предложение
+  const knownExamples = new Set(current.examples.map((example) => example.english.toLowerCase()));
+  const addedExamples = incoming.examples.filter((example) => !knownExamples.has(example.english.toLowerCase()));
+  if (addedExamples.length > 0) {
+    changes.examples = [...current.examples, ...addedExamples];
+  }
+  const addedTags = incoming.tags.filter((tag) => !current.tags.includes(tag));
+  if (addedTags.length > 0) {
+    changes.tags = [...current.tags, ...addedTags];
+  }
+  if (!current.sourceText && incoming.sourceText) {
+    changes.sourceText = incoming.sourceText;
+  }
+  if (!current.sourceUrl && incoming.sourceUrl) {
+    changes.sourceUrl = incoming.sourceUrl;
+  }
+  if (incoming.isFavorite !== undefined && incoming.isFavorite !== current.isFavorite) {
+    changes.isFavorite = incoming.isFavorite;
+  }
+  return changes;
+}
+
+// Разобрать экспорт Reverso. null — это не массив записей
+export function parseReversoEntries(raw: unknown): ImportCandidate[] | null {
+  if (!Array.isArray(raw) || !raw.every((entry) => entry !== null && typeof entry === 'object')) {
+    return null;
+  }
+  return raw.map((entry: ReversoEntry, index) => ({ row: index + 1, data: entryToWord(entry) }));
+}
+
+// Составить план импорта, ничего не записывая в базу
+export function planImport(candidates: ImportCandidate[], existingWords: ExistingWord[]): ImportPlan {
+  const existing = new Map(existingWords.map((word) => [duplicateKey(word.english), word]));
+  const added = new Map<string, ImportWordData>();
+  const updated = new Map<number, { word: ExistingWord; data: Partial<ImportWordData> }>();
+  const items: ImportItem[] = [];
+
+  for (const { row, data: incoming, error } of candidates) {
+    const item = { row, english: incoming.english, russian: incoming.russian };
+    const reason = error ?? (!incoming.english || !incoming.russian ? 'Missing text or translation' : undefined);
+    if (reason) {
+      items.push({ ...item, action: 'ERROR', reason });
+      continue;
+    }
+
+    const key = duplicateKey(incoming.english);
+    const word = existing.get(key);
+    if (word) {
+      // Изменения накапливаются, если слово встречается в файле несколько раз
+      const pending = updated.get(word.id) ?? { word, data: {} };
+      const changes = mergeWord({ ...word, ...pending.data }, incoming);
+      if (Object.keys(changes).length === 0) {
+        items.push({ ...item, action: 'SKIP', wordId: word.id, reason: 'Already exists' });
+        continue;
+      }
+      pending.data = { ...pending.data, ...changes };
+      updated.set(word.id, pending);
+      items.push({ ...item, action: 'UPDATE', wordId: word.id, changes: Object.keys(changes) });
+      continue;
+    }
+
+    const duplicate = added.get(key);
+    if (duplicate) {
+      const changes = mergeWord(duplicate, incoming);
+      Object.assign(duplicate, changes);
+      items.push({
+        ...item,
+        action: 'SKIP',
+        reason: Object.keys(changes).length > 0 ? 'Merged into an earlier entry' : 'Duplicate in file',
+      });
+      continue;
+    }
+
+    added.set(key, { ...incoming, examples: [...incoming.examples], tags: [...incoming.tags] });
+    // Похожее слово не мешает добавлению, но показывается в отчете
+    const [similar] = findDuplicates(incoming.english, existingWords);
+    items.push(similar
+      ? { ...item, action: 'ADD', wordId: similar.word.id, reason: `Similar to "${similar.word.english}"` }
+      : { ...item, action: 'ADD' });
+  }
+
+  return {
+    add: [...added.values()],
+    update: [...updated.values()].map(({ word, data }) => ({ id: word.id, data })),
+    items,
+  };
+}
+
+export const WORD_COLUMNS: WordColumn[] = [
+  'english', 'russian', 'exampleEn', 'exampleRu', 'isFavorite', 'tags', 'sourceText', 'sourceUrl',
+];
+
+export const TABLE_DELIMITERS: Record<TableFormat, string> = {
+  csv: ',',
+  tsv: '\t',
+};
+
+// Другие названия столбцов в заголовке (например, поля карточки Anki)
+const COLUMN_ALIASES = new Map<string, WordColumn>([
+  ['front', 'english'],
+  ['back', 'russian'],
+  ['favorite', 'isFavorite'],
+]);
+
+const BOOLEAN_VALUES = new Map<string, boolean>([
+  ['true', true],
+  ['yes', true],
+  ['1', true],
+  ['false', false],
+  ['no', false],
+  ['0', false],
+]);
+
+// Строки заголовка Anki: "#separator:tab", "#columns:english\trussian", "#tags column:3"
+const ANKI_HEADER = /^#([^:\n]+):(.*)$/;
+
+function columnForName(name: string): WordColumn | null {
+  const key = name.trim().toLowerCase();
+  return WORD_COLUMNS.find((column) => column.toLowerCase() === key) ?? COLUMN_ALIASES.get(key) ?? null;
+}
+
+// Проверить сопоставление столбцов из запроса: известные поля или null (столбец пропускается).
+// null — передано неизвестное поле
+export function parseColumnMapping(raw: unknown): (WordColumn | null)[] | null {
+  if (!Array.isArray(raw) || !raw.every((column) => column === null || column === '' || WORD_COLUMNS.includes(column))) {
+    return null;
+  }
+  return raw.map((column) => (column ? column : null));
+}
+
+export interface TableImportOptions {
+  // Поле слова для каждого столбца по порядку; без него столбцы берутся из заголовка
+  columns?: (WordColumn | null)[];
+  // Первая строка — заголовок с названиями полей
+  header?: boolean;
+}
+
+// Разобрать CSV/TSV в записи импорта. null — в сопоставлении нет английского текста
+// и перевода или одно поле указано дважды
+export function parseTable(content: string, format: TableFormat, options: TableImportOptions = {}): ImportCandidate[] | null {
+  const delimiter = TABLE_DELIMITERS[format];
+  // Метка порядка байтов (BOM), которую Excel пишет в начало UTF-8 файла, не входит в первое поле
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  // Заголовок файла, экспортированного из Anki, идет перед записями
+  let headerLines = 0;
+  let ankiColumns: string[] | null = null;
+  // Номер столбца с метками (с 1)
+  let ankiTagsColumn: number | null = null;
+  while (headerLines < lines.length && ANKI_HEADER.test(lines[headerLines])) {
+    const [, key, value] = ANKI_HEADER.exec(lines[headerLines])!;
+    if (key.trim() === 'columns') {
+      ankiColumns = value.split(delimiter);
+    } else if (key.trim() === 'tags column' && Number.isInteger(Number(value)) && Number(value) > 0) {
+      ankiTagsColumn = Number(value);
+    }
+    headerLines++;
+  }
+
+  const table = parseDelimited(lines.slice(headerLines).join('\n'), delimiter);
+  const rows = table.rows.map((row) => ({ ...row, line: row.line + headerLines }));
+
+  let names = ankiColumns;
+  if (options.header && rows.length > 0) {
+    names = rows.shift()!.fields;
+  }
+  let columns = options.columns ?? names?.map(columnForName) ?? WORD_COLUMNS;
+  if (!options.columns && ankiTagsColumn !== null) {
+    columns = Array.from({ length: Math.max(columns.length, ankiTagsColumn) }, (_, index) => (
+      index === ankiTagsColumn! - 1 ? 'tags' : columns[index] === 'tags' ? null : columns[index] ?? null
+    ));
+  }
+
+  const mapped = columns.filter((column): column is WordColumn => column !== null);
+  if (!mapped.includes('english') || !mapped.includes('russian') || new Set(mapped).size !== mapped.length) {
+    return null;
+  }
+
+  const candidates: ImportCandidate[] = rows.map(({ line, fields }) => {
+    const rawValue = (column: WordColumn): string => {
+      const index = columns.indexOf(column);
+      return index === -1 ? '' : fields[index] ?? '';
+    };
+    const value = (column: WordColumn): string => rawValue(column).trim();
+    const data: ImportWordData = {
+      english: value('english'),
+      russian: value('russian'),
+      examples: examplePairs(rawValue('exampleEn'), rawValue('exampleRu')),
+      tags: splitTags(value('tags'), TABLE_TAG_SEPARATOR),
+      sourceText: value('sourceText'),
+      sourceUrl: value('sourceUrl'),
+    };
+
+    const favorite = value('isFavorite').toLowerCase();
+    if (favorite) {
+      data.isFavorite = BOOLEAN_VALUES.get(favorite);
+      if (data.isFavorite === undefined) {
+        return { row: line, data, error: `Invalid favorite value "${favorite}"` };
+      }
+    }
+    return { row: line, data };
+  });
+
+  if (table.unclosedQuoteLine !== null) {
+    candidates.push({
+      row: table.unclosedQuoteLine + headerLines,
+      data: { english: '', russian: '', examples: [], tags: [], sourceText: '', sourceUrl: '' },
+      error: 'Unclosed quote',
+    });
+  }
+  return candidates;
+}
+
+type ExportWord = Omit<ImportWordData, 'isFavorite'> & { isFavorite: boolean };
+
+// Значение столбца: метки через пробел, в столбцах примеров — все примеры слова по строкам
+// (перевод строки внутри предложения заменяется пробелом, чтобы не сбить пары)
+function columnValue(word: ExportWord, column: WordColumn): string {
+  switch (column) {
+    case 'tags':
+      return word.tags.join(' ');
+    case 'exampleEn':
+    case 'exampleRu': {
+      const side = column === 'exampleEn' ? 'english' : 'russian';
+      return word.examples.map((example) => example[side].replace(/\s+/g, ' ')).join(EXAMPLE_SEPARATOR);
+    }
+    default:
+      return String(word[column]);
+  }
+}
+
+// Выгрузить слова в CSV (первая строка — заголовок) или TSV для Anki
+// (заголовок в формате Anki: разделитель, названия столбцов и столбец меток)
+export function exportTable(words: ExportWord[], format: TableFormat, columns: WordColumn[] = WORD_COLUMNS): string {
+  const delimiter = TABLE_DELIMITERS[format];
+  const rows = words.map((word) => columns.map((column) => columnValue(word, column)));
+
+  if (format === 'tsv') {
+    const header = ['#separator:tab', '#html:false', `#columns:${columns.join('\t')}`];
+    if (columns.includes('tags')) {
+      header.push(`#tags column:${columns.indexOf('tags') + 1}`);
+    }
+    return header.join('\n') + '\n' + formatDelimited(rows, delimiter);
+  }
+  return formatDelimited([columns, ...rows], delimiter);
+}
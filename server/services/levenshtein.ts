@@ -0,0 +1,59 @@
+// Функция для вычисления расстояния Левенштейна
+export function levenshteinDistance(str1: string, str2: string): number {
+  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+  
+  for (let i = 0; i <= str1.length; i++) {
+    matrix[0][i] = i;
+  }
+  
+  for (let j = 0; j <= str2.length; j++) {
+    matrix[j][0] = j;
+  }
+  
+  for (let j = 1; j <= str2.length; j++) {
+    for (let i = 1; i <= str1.length; i++) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1,
+        matrix[j - 1][i] + 1,
+        matrix[j - 1][i - 1] + indicator
+      );
+    }
+  }
+  
+  return matrix[str2.length][str1.length];
+}
+
+// Матрица расстояний Дамерау-Левенштейна (вариант "optimal string alignment"):
+// перестановка двух соседних символов считается одной ошибкой
+export function damerauLevenshteinMatrix(str1: string, str2: string): number[][] {
+  const matrix = Array(str1.length + 1).fill(null).map(() => Array(str2.length + 1).fill(0));
+
+  for (let i = 0; i <= str1.length; i++) {
+    matrix[i][0] = i;
+  }
+
+  for (let j = 0; j <= str2.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= str1.length; i++) {
+    for (let j = 1; j <= str2.length; j++) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,
+        matrix[i][j - 1] + 1,
+        matrix[i - 1][j - 1] + indicator
+      );
+      if (i > 1 && j > 1 && str1[i - 1] === str2[j - 2] && str1[i - 2] === str2[j - 1]) {
+        matrix[i][j] = Math.min(matrix[i][j], matrix[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return matrix;
+}
+
+export function damerauLevenshteinDistance(str1: string, str2: string): number {
+  return damerauLevenshteinMatrix(str1, str2)[str1.length][str2.length];
+}
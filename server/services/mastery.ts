@@ -0,0 +1,86 @@
+// Уровни владения словом: new → learning → familiar → mastered
+// Уровень растет за правильные ответы подряд, данные в разные дни:
+// несколько правильных ответов за один день засчитываются как один
+import { MasteryLevel } from '../types';
+import { QUALITY_CORRECT, PASSING_QUALITY } from './scheduler';
+
+export const MASTERY_LEVELS: MasteryLevel[] = ['NEW', 'LEARNING', 'FAMILIAR', 'MASTERED'];
+
+// Пороги задаются в "днях" серии правильных ответов и настраиваются через переменные окружения
+export const MASTERY_THRESHOLDS = {
+  FAMILIAR: Number(process.env.MASTERY_FAMILIAR_DAYS) || 2,
+  MASTERED: Number(process.env.MASTERY_MASTERED_DAYS) || 4,
+};
+
+export interface StreakState {
+  // Сумма засчитанных дней серии (день может быть засчитан частично)
+  streak: number;
+  // Сколько уже засчитано за день streakDay
+  streakDayCredit: number;
+  streakDay: Date | null;
+}
+
+// Вклад ответа в серию: ответ без подсказок засчитывает день целиком,
+// более легкие ответы (выбор варианта, синоним) — только частично
+export function qualityCredit(quality: number): number {
+  if (quality < PASSING_QUALITY) {
+    return 0;
+  }
+  return 1 / 2 ** (QUALITY_CORRECT - quality);
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate();
+}
+
+// Обновить серию после ответа. Ошибка обнуляет серию
+export function nextStreak(current: StreakState | null, quality: number, now: Date = new Date()): StreakState {
+  const credit = qualityCredit(quality);
+
+  if (credit === 0) {
+    return { streak: 0, streakDayCredit: 0, streakDay: null };
+  }
+
+  const state = current ?? { streak: 0, streakDayCredit: 0, streakDay: null };
+
+  if (state.streakDay && isSameDay(state.streakDay, now)) {
+    const dayCredit = Math.max(state.streakDayCredit, credit);
+    return {
+      streak: state.streak + dayCredit - state.streakDayCredit,
+      streakDayCredit: dayCredit,
+      streakDay: state.streakDay,
+    };
+  }
+
+  return {
+    streak: state.streak + credit,
+    streakDayCredit: credit,
+    streakDay: now,
+  };
+}
+
+// Уровень слова, на которое уже отвечали (NEW — только у слов без ответов)
+export function masteryLevel(streak: number): Exclude<MasteryLevel, 'NEW'> {
+  if (streak >= MASTERY_THRESHOLDS.MASTERED) {
+    return 'MASTERED';
+  }
+  if (streak >= MASTERY_THRESHOLDS.FAMILIAR) {
+    return 'FAMILIAR';
+  }
+  return 'LEARNING';
+}
+
+// Разобрать параметр запроса вида "LEARNING,FAMILIAR"
+// undefined — фильтр не задан, null — передан неизвестный уровень
+export function parseMasteryLevels(raw?: string): MasteryLevel[] | undefined | null {
+  if (!raw) {
+    return undefined;
+  }
+  const levels = raw.split(',').map((level) => level.trim().toUpperCase());
+  if (!levels.every((level): level is MasteryLevel => MASTERY_LEVELS.includes(level as MasteryLevel))) {
+    return null;
+  }
+  return levels;
+}
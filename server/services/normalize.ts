@@ -0,0 +1,90 @@
+// Нормализация ответа перед сравнением. Правила применяются по порядку
+// и одинаково к ответу пользователя и к принятым вариантам
+import { NormalizationRule } from '../types';
+import { aspectStem, foldYo, stripReflexive } from './russian';
+
+export const NORMALIZATION_RULES: NormalizationRule[] = [
+  'APOSTROPHES',
+  'CONTRACTIONS',
+  'PUNCTUATION',
+  'WHITESPACE',
+  'OPTIONAL_PREFIX',
+  'REFLEXIVE',
+  'ASPECT',
+];
+
+// Правила, включенные у нового слова. Правила для русских глаголов меняют смысл ответа,
+// поэтому включаются только вручную
+export const DEFAULT_NORMALIZATION_RULES: NormalizationRule[] = NORMALIZATION_RULES
+  .filter((rule) => rule !== 'REFLEXIVE' && rule !== 'ASPECT');
+
+export interface NormalizedText {
+  text: string;
+  // Правила, которые изменили текст
+  applied: NormalizationRule[];
+}
+
+const CURLY_APOSTROPHES = /[‘’ʼ`´]/g;
+
+// Сокращения с неоднозначным 's раскрываются только после местоимений и вопросительных слов,
+// чтобы не превращать притяжательное "someone's" в "someone is"
+const IRREGULAR_CONTRACTIONS: [RegExp, string][] = [
+  [/\bcan't\b/g, 'can not'],
+  [/\bcannot\b/g, 'can not'],
+  [/\bwon't\b/g, 'will not'],
+  [/\bshan't\b/g, 'shall not'],
+  [/\blet's\b/g, 'let us'],
+  [/\b(it|he|she|that|what|there|here|who|where|how)'s\b/g, '$1 is'],
+];
+const REGULAR_CONTRACTIONS: [RegExp, string][] = [
+  [/n't\b/g, ' not'],
+  [/'re\b/g, ' are'],
+  [/'ve\b/g, ' have'],
+  [/'ll\b/g, ' will'],
+  [/'m\b/g, ' am'],
+  [/'d\b/g, ' would'],
+];
+
+// Знаки препинания заменяются пробелом, чтобы "well-being" и "well being" совпадали
+const PUNCTUATION = /[^\p{L}\p{N}\s']|'(?!\p{L})|(?<!\p{L})'/gu;
+
+// Необязательные частица "to" и артикли в начале ответа
+const OPTIONAL_PREFIX = /^(to|a|an|the) (?=\S)/;
+
+const RULES: Record<NormalizationRule, (text: string) => string> = {
+  APOSTROPHES: (text) => text.replace(CURLY_APOSTROPHES, "'"),
+  CONTRACTIONS: (text) => [...IRREGULAR_CONTRACTIONS, ...REGULAR_CONTRACTIONS]
+    .reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text),
+  PUNCTUATION: (text) => text.replace(PUNCTUATION, ' '),
+  WHITESPACE: (text) => text.trim().replace(/\s+/g, ' '),
+  OPTIONAL_PREFIX: (text) => text.replace(OPTIONAL_PREFIX, ''),
+  REFLEXIVE: stripReflexive,
+  ASPECT: aspectStem,
+};
+
+// Применить включенные для слова правила. Регистр и разница между ё и е не учитываются всегда
+export function normalizeText(text: string, rules: NormalizationRule[] = DEFAULT_NORMALIZATION_RULES): NormalizedText {
+  let result = foldYo(text.toLowerCase().trim());
+  const applied: NormalizationRule[] = [];
+
+  for (const rule of NORMALIZATION_RULES) {
+    if (!rules.includes(rule)) {
+      continue;
+    }
+    const next = RULES[rule](result);
+    if (next !== result) {
+      applied.push(rule);
+      result = next;
+    }
+  }
+
+  return { text: result.trim(), applied };
+}
+
+// Разобрать список правил из тела запроса. null — передано неизвестное правило
+export function parseNormalizationRules(raw: unknown): NormalizationRule[] | null {
+  if (!Array.isArray(raw) || !raw.every((rule) => NORMALIZATION_RULES.includes(rule))) {
+    return null;
+  }
+  return NORMALIZATION_RULES.filter((rule) => raw.includes(rule));
+}
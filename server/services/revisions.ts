@@ -0,0 +1,140 @@
+// История правок слов. Каждое создание, изменение, удаление и восстановление слова
+// записывается как правка с состоянием слова до и после, по которому слово можно вернуть
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Request } from 'express';
+import { RevisionAction, WordRevision, WordSnapshot, WordSnapshotField } from '../types';
+import { createExamples, EXAMPLE_ORDER } from './examples';
+
+type RevisionClient = PrismaClient | Prisma.TransactionClient;
+
+// Связанные данные, которые входят в состояние слова
+export const SNAPSHOT_INCLUDE = { examples: EXAMPLE_ORDER, variants: true, tags: true } as const;
+
+type SnapshotWord = Prisma.WordGetPayload<{ include: typeof SNAPSHOT_INCLUDE }>;
+
+const SNAPSHOT_FIELDS: WordSnapshotField[] = [
+  'english', 'russian', 'isFavorite', 'normalization', 'sourceText', 'sourceUrl',
+  'partOfSpeech', 'register', 'transcription', 'notes', 'examples', 'variants', 'tags',
+];
+
+export function toSnapshot(word: SnapshotWord): WordSnapshot {
+  return {
+    english: word.english,
+    russian: word.russian,
+    isFavorite: word.isFavorite,
+    normalization: word.normalization,
+    sourceText: word.sourceText,
+    sourceUrl: word.sourceUrl,
+    partOfSpeech: word.partOfSpeech,
+    register: word.register,
+    transcription: word.transcription,
+    notes: word.notes,
+    examples: word.examples.map(({ english, russian }) => ({ english, russian })),
+    variants: word.variants.map(({ text, direction }) => ({ text, direction })),
+    tags: word.tags.map((tag) => tag.name).sort(),
+  };
+}
+
+// Автор правки: заголовок X-Author, если клиент его передал, иначе адрес клиента
+export function revisionAuthor(req: Request): string {
+  return req.get('X-Author')?.trim() || req.ip || 'unknown';
+}
+
+// Текущее состояние слова. null — слова нет
+export async function findSnapshot(prisma: RevisionClient, wordId: number): Promise<WordSnapshot | null> {
+  const word = await prisma.word.findUnique({ where: { id: wordId }, include: SNAPSHOT_INCLUDE });
+  return word && toSnapshot(word);
+}
+
+// Текущие состояния нескольких слов по id
+export async function findSnapshots(prisma: RevisionClient, wordIds: number[]): Promise<Map<number, WordSnapshot>> {
+  const words = await prisma.word.findMany({ where: { id: { in: wordIds } }, include: SNAPSHOT_INCLUDE });
+  return new Map(words.map((word) => [word.id, toSnapshot(word)]));
+}
+
+// Поля, которые отличаются в двух состояниях (для созданного или удаленного слова — все поля)
+export function changedFields(before: WordSnapshot | null, after: WordSnapshot | null): WordSnapshotField[] {
+  if (!before || !after) {
+    return [...SNAPSHOT_FIELDS];
+  }
+  return SNAPSHOT_FIELDS.filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+const toJson = (snapshot: WordSnapshot | null) => (
+  snapshot === null ? Prisma.DbNull : (snapshot as unknown as Prisma.InputJsonObject)
+);
+
+export type RevisionInput = { wordId: number; action: RevisionAction; author: string; before: WordSnapshot | null; after: WordSnapshot | null };
+
+// Записать правку. Изменение, после которого слово не поменялось, не записывается
+export async function recordRevision(prisma: RevisionClient, revision: RevisionInput): Promise<void> {
+  await recordRevisions(prisma, [revision]);
+}
+
+// Записать несколько правок одним запросом
+export async function recordRevisions(prisma: RevisionClient, revisions: RevisionInput[]): Promise<void> {
+  const data = revisions
+    .map((revision) => ({ ...revision, changes: changedFields(revision.before, revision.after) }))
+    .filter((revision) => revision.action !== 'UPDATE' || revision.changes.length > 0)
+    .map((revision) => ({ ...revision, before: toJson(revision.before), after: toJson(revision.after) }));
+  if (data.length > 0) {
+    await prisma.wordRevision.createMany({ data });
+  }
+}
+
+// Записать изменения нескольких слов по их состояниям до изменения
+export async function recordUpdates(prisma: RevisionClient, before: Map<number, WordSnapshot>, author: string): Promise<void> {
+  const after = await findSnapshots(prisma, [...before.keys()]);
+  await recordRevisions(prisma, [...before].map(([wordId, snapshot]) => ({
+    wordId,
+    action: 'UPDATE' as const,
+    author,
+    before: snapshot,
+    after: after.get(wordId) ?? null
+  })));
+}
+
+export function toRevision(revision: Prisma.WordRevisionGetPayload<{}>): WordRevision {
+  return {
+    ...revision,
+    before: revision.before as unknown as WordSnapshot | null,
+    after: revision.after as unknown as WordSnapshot | null,
+    changes: revision.changes as WordSnapshotField[],
+  };
+}
+
+// Состояние, к которому возвращает восстановление правки: после правки,
+// а для удаления — состояние перед ним
+export function restoreTarget(revision: WordRevision): WordSnapshot | null {
+  return revision.action === 'DELETE' ? revision.before : revision.after;
+}
+
+// Привести слово к сохраненному состоянию. Слово из корзины возвращается из нее, а удаленное
+// окончательно создается заново с тем же id (его ответы и расписание не восстанавливаются)
+export async function applySnapshot(prisma: RevisionClient, wordId: number, snapshot: WordSnapshot, exists: boolean): Promise<void> {
+  const { examples, variants, tags, ...fields } = snapshot;
+  await prisma.tag.createMany({ data: tags.map((name) => ({ name })), skipDuplicates: true });
+
+  if (exists) {
+    await prisma.word.update({
+      where: { id: wordId },
+      data: {
+        ...fields,
+        deletedAt: null,
+        examples: { deleteMany: {}, ...createExamples(examples) },
+        variants: { deleteMany: {}, create: variants },
+        tags: { set: tags.map((name) => ({ name })) }
+      }
+    });
+    return;
+  }
+  await prisma.word.create({
+    data: {
+      id: wordId,
+      ...fields,
+      examples: createExamples(examples),
+      variants: { create: variants },
+      tags: { connect: tags.map((name) => ({ name })) }
+    }
+  });
+}
@@ -0,0 +1,59 @@
+// Проверка русских ответов: перевод может содержать несколько значений через запятую
+// или точку с запятой, буква ё не отличается от е, а возвратность и вид глагола
+// можно не учитывать (включается в настройках слова)
+
+// Приставки, которыми обычно образуется совершенный вид: делать → сделать, писать → написать
+const PERFECTIVE_PREFIXES = ['про', 'по', 'на', 'за', 'вы', 'с', 'у'];
+// Суффиксы несовершенного вида (после отбрасывания окончания): показыв- → показ-, узнав- → узн-
+const IMPERFECTIVE_SUFFIX = /(ыв|ив|ав)$/;
+const INFINITIVE = /([аеиоуыяю]?ть|ти|чь)$/;
+const REFLEXIVE = /(ся|сь)$/;
+const MEANING_SEPARATOR = /[,;](?![^()]*\))/;
+const CYRILLIC_WORD = /[а-яё]+/g;
+// Короче этого основа не укорачивается, чтобы не склеивать разные слова
+const MIN_STEM_LENGTH = 3;
+
+export function foldYo(text: string): string {
+  return text.replace(/ё/g, 'е').replace(/Ё/g, 'Е');
+}
+
+// Значения перевода: части, разделенные запятой или точкой с запятой.
+// Разделители внутри скобок значения не делят: "делать (что-то, кого-то)"
+export function russianMeanings(russian: string): string[] {
+  const meanings = russian
+    .split(MEANING_SEPARATOR)
+    .map((meaning) => meaning.toLowerCase().trim().replace(/\s+/g, ' '))
+    .filter((meaning) => meaning.length > 0);
+  return [...new Set(meanings)];
+}
+
+function isVerb(word: string): boolean {
+  return INFINITIVE.test(word.replace(REFLEXIVE, ''));
+}
+
+// "заниматься" → "занимать": у глаголов отбрасывается "ся"/"сь"
+export function stripReflexive(text: string): string {
+  return text.replace(CYRILLIC_WORD, (word) => (isVerb(word) ? word.replace(REFLEXIVE, '') : word));
+}
+
+// Привести глагол к общей основе видовой пары: "сделать" и "делать" → "дел",
+// "показывать" и "показать" → "показ"
+export function aspectStem(text: string): string {
+  return text.replace(CYRILLIC_WORD, (word) => {
+    if (!isVerb(word)) {
+      return word;
+    }
+    const reflexive = REFLEXIVE.exec(word)?.[0] ?? '';
+    let stem = word.slice(0, word.length - reflexive.length).replace(INFINITIVE, '');
+    if (IMPERFECTIVE_SUFFIX.test(stem) && stem.replace(IMPERFECTIVE_SUFFIX, '').length >= MIN_STEM_LENGTH) {
+      stem = stem.replace(IMPERFECTIVE_SUFFIX, '');
+    }
+    const prefix = PERFECTIVE_PREFIXES.find((candidate) =>
+      stem.startsWith(candidate) && stem.length - candidate.length >= MIN_STEM_LENGTH
+    );
+    if (prefix) {
+      stem = stem.slice(prefix.length);
+    }
+    return stem + reflexive;
+  });
+}
@@ -0,0 +1,92 @@
+// Планировщик интервальных повторений (вариант алгоритма SM-2)
+import { ExerciseType, HintType } from '../types';
+import { hintPenalty } from './hints';
+
+export const DEFAULT_EASE = 2.5;
+export const MIN_EASE = 1.3;
+// Через сколько минут показать слово снова после ошибки
+export const LAPSE_DELAY_MINUTES = 10;
+
+// Оценка качества ответа по шкале SM-2 (0-5)
+export const QUALITY_CORRECT = 5;
+// Выбор из готовых вариантов проще, чем ввод слова, поэтому засчитывается слабее
+export const QUALITY_CHOICE_CORRECT = 4;
+export const QUALITY_SYNONYM_CREDIT = 4;
+export const QUALITY_WRONG = 1;
+// Ответ подсмотрен или пользователь сдался — полный провал по шкале SM-2
+export const QUALITY_GAVE_UP = 0;
+// Ответы с оценкой ниже порога считаются забытыми
+export const PASSING_QUALITY = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduleState {
+  ease: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+}
+
+// Оценить ответ для планировщика. null — ответ не влияет на расписание
+// (частичный ответ или синоним: пользователь продолжает попытки).
+// Подсказки снижают оценку правильного ответа, но он остается засчитанным
+export function answerQuality(result: {
+  isCorrect: boolean;
+  isPartial: boolean;
+  isSynonym: boolean;
+  exercise?: ExerciseType;
+  hints?: HintType[];
+}): number | null {
+  if (result.isCorrect) {
+    const quality = result.exercise === 'MULTIPLE_CHOICE' ? QUALITY_CHOICE_CORRECT : QUALITY_CORRECT;
+    return Math.max(PASSING_QUALITY, quality - hintPenalty(result.hints ?? []));
+  }
+  if (result.isPartial || result.isSynonym) {
+    return null;
+  }
+  return QUALITY_WRONG;
+}
+
+// Вычислить следующее состояние расписания слова после ответа
+export function nextSchedule(current: ScheduleState | null, quality: number, now: Date = new Date()): ScheduleState {
+  const state: ScheduleState = current ?? {
+    ease: DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+  };
+
+  const ease = Math.max(
+    MIN_EASE,
+    state.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  if (quality < PASSING_QUALITY) {
+    return {
+      ease,
+      interval: 0,
+      repetitions: 0,
+      lapses: state.lapses + (state.repetitions > 0 ? 1 : 0),
+      dueAt: new Date(now.getTime() + LAPSE_DELAY_MINUTES * 60 * 1000),
+    };
+  }
+
+  let interval: number;
+  if (state.repetitions === 0) {
+    interval = 1;
+  } else if (state.repetitions === 1) {
+    interval = 6;
+  } else {
+    interval = Math.round(state.interval * ease);
+  }
+
+  return {
+    ease,
+    interval,
+    repetitions: state.repetitions + 1,
+    lapses: state.lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+  };
+}
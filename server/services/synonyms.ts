@@ -0,0 +1,86 @@
+// Предложения групп синонимов по пересекающимся значениям русского перевода:
+// "приступить к" и "приступить к, начать" имеют общее значение "приступить к"
+import { PrismaClient } from '@prisma/client';
+import { russianMeanings } from './russian';
+
+// Минимальный размер группы синонимов
+export const MIN_GROUP_SIZE = 2;
+
+interface SuggestionWord {
+  id: number;
+  russian: string;
+  synonymGroupId: number | null;
+}
+
+export interface SuggestedGroup {
+  wordIds: number[];
+  sharedMeanings: string[];
+}
+
+// Объединить слова, у которых есть хотя бы одно общее значение.
+// Группы, все слова которых уже состоят в одной группе синонимов, не предлагаются
+export function suggestSynonymGroups(words: SuggestionWord[]): SuggestedGroup[] {
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    const root = parent.get(id) ?? id;
+    if (root === id) {
+      return id;
+    }
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  const wordsByMeaning = new Map<string, number[]>();
+  for (const word of words) {
+    for (const meaning of russianMeanings(word.russian)) {
+      wordsByMeaning.set(meaning, [...(wordsByMeaning.get(meaning) ?? []), word.id]);
+    }
+  }
+
+  for (const ids of wordsByMeaning.values()) {
+    for (const id of ids.slice(1)) {
+      parent.set(find(id), find(ids[0]));
+    }
+  }
+
+  const groups = new Map<number, SuggestionWord[]>();
+  for (const word of words) {
+    const root = find(word.id);
+    groups.set(root, [...(groups.get(root) ?? []), word]);
+  }
+
+  const suggestions: SuggestedGroup[] = [];
+  for (const members of groups.values()) {
+    if (members.length < MIN_GROUP_SIZE) {
+      continue;
+    }
+    const groupId = members[0].synonymGroupId;
+    if (groupId !== null && members.every((word) => word.synonymGroupId === groupId)) {
+      continue;
+    }
+
+    const memberIds = new Set(members.map((word) => word.id));
+    const sharedMeanings = [...wordsByMeaning.entries()]
+      .filter(([, ids]) => ids.length > 1 && ids.every((id) => memberIds.has(id)))
+      .map(([meaning]) => meaning);
+
+    suggestions.push({ wordIds: members.map((word) => word.id), sharedMeanings });
+  }
+
+  return suggestions;
+}
+
+// Удалить группы, в которых после переноса слов осталось меньше двух слов
+export async function deleteSmallGroups(tx: Pick<PrismaClient, 'synonymGroup' | 'word'>): Promise<void> {
+  const groups = await tx.synonymGroup.findMany({
+    select: { id: true, _count: { select: { words: true } } }
+  });
+  const smallGroupIds = groups
+    .filter((group) => group._count.words < MIN_GROUP_SIZE)
+    .map((group) => group.id);
+
+  if (smallGroupIds.length > 0) {
+    await tx.synonymGroup.deleteMany({ where: { id: { in: smallGroupIds } } });
+  }
+}
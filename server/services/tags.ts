@@ -0,0 +1,26 @@
+// Метки слов. Название метки — в нижнем регистре, пробелы заменяются на "_",
+// чтобы метки можно было перечислить через пробел (как в Anki)
+
+export function normalizeTagName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+// Разделить текст на метки: пустые и повторяющиеся названия отбрасываются
+export function splitTags(text: string, separator: RegExp): string[] {
+  return [...new Set(text.split(separator).map(normalizeTagName).filter((name) => name !== ''))];
+}
+
+// Проверить список меток из запроса. null — это не массив строк
+export function parseTags(raw: unknown): string[] | null {
+  if (!Array.isArray(raw) || !raw.every((name) => typeof name === 'string')) {
+    return null;
+  }
+  return [...new Set(raw.map(normalizeTagName).filter((name) => name !== ''))];
+}
+
+// Привязать слово к меткам, создавая недостающие
+export function connectTags(names: string[]) {
+  return {
+    connectOrCreate: names.map((name) => ({ where: { name }, create: { name } }))
+  };
+}
@@ -0,0 +1,48 @@
+// Корзина слов. Удаленное слово сначала попадает в корзину (deletedAt) вместе с ответами и расписанием;
+// из корзины его можно вернуть, а после срока хранения оно удаляется окончательно
+import { Prisma, PrismaClient } from '@prisma/client';
+import { syncFavoritesDeck } from './decks';
+import { deleteSmallGroups } from './synonyms';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TrashClient = PrismaClient | Prisma.TransactionClient;
+
+// Условие выборки слов не из корзины
+export const ACTIVE_WORD = { deletedAt: null } as const;
+
+// Сколько дней слово хранится в корзине (TRASH_RETENTION_DAYS, по умолчанию 30)
+export function retentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+// Когда слово из корзины будет удалено окончательно
+export function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + retentionDays() * DAY_MS);
+}
+
+// Окончательно удалить слова из корзины (ответы и расписание удаляются каскадно).
+// Без wordIds удаляется вся корзина, с olderThan — только слова, удаленные раньше этой даты
+export async function purgeWords(
+  prisma: TrashClient,
+  filter: { wordIds?: number[]; olderThan?: Date } = {}
+): Promise<number> {
+  const { count } = await prisma.word.deleteMany({
+    where: {
+      deletedAt: filter.olderThan ? { lt: filter.olderThan } : { not: null },
+      ...(filter.wordIds && { id: { in: filter.wordIds } })
+    }
+  });
+  if (count > 0) {
+    await deleteSmallGroups(prisma);
+    await syncFavoritesDeck(prisma);
+  }
+  return count;
+}
+
+// Удалить слова, срок хранения которых в корзине истек
+export async function purgeExpiredWords(prisma: PrismaClient): Promise<number> {
+  return purgeWords(prisma, { olderThan: new Date(Date.now() - retentionDays() * DAY_MS) });
+}
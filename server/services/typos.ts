@@ -0,0 +1,97 @@
+// Диагностика опечаток: допустимое число ошибок зависит от длины слова,
+// а посимвольный diff показывает, где именно ошибка
+import { AnswerDiffSegment } from '../types';
+import { damerauLevenshteinMatrix } from './levenshtein';
+
+// Одна ошибка допускается на каждые TYPO_CHARS_PER_ERROR символов, но не меньше одной
+const TYPO_CHARS_PER_ERROR = 4;
+
+export function typoThreshold(length: number): number {
+  return Math.max(1, Math.floor(length / TYPO_CHARS_PER_ERROR));
+}
+
+export interface TypoMatch {
+  target: string;
+  distance: number;
+  diff: AnswerDiffSegment[];
+}
+
+// Найти среди правильных форм ближайшую, отличающуюся от ответа не больше чем на порог
+export function findTypo(answer: string, targets: string[]): TypoMatch | null {
+  let best: TypoMatch | null = null;
+
+  for (const target of targets) {
+    const matrix = damerauLevenshteinMatrix(answer, target);
+    const distance = matrix[answer.length][target.length];
+    if (distance === 0 || distance > typoThreshold(target.length)) {
+      continue;
+    }
+    if (!best || distance < best.distance) {
+      best = { target, distance, diff: buildDiff(answer, target, matrix) };
+    }
+  }
+
+  return best;
+}
+
+// Восстановить выравнивание по матрице расстояний: что введено лишним,
+// что пропущено, что заменено и какие соседние буквы переставлены
+function buildDiff(answer: string, target: string, matrix: number[][]): AnswerDiffSegment[] {
+  const segments: AnswerDiffSegment[] = [];
+  let i = answer.length;
+  let j = target.length;
+
+  while (i > 0 || j > 0) {
+    const current = matrix[i][j];
+    if (i > 0 && j > 0 && answer[i - 1] === target[j - 1] && current === matrix[i - 1][j - 1]) {
+      segments.push({ type: 'EQUAL', text: answer[i - 1], expected: target[j - 1] });
+      i--;
+      j--;
+    } else if (
+      i > 1 && j > 1 &&
+      answer[i - 1] === target[j - 2] && answer[i - 2] === target[j - 1] &&
+      current === matrix[i - 2][j - 2] + 1
+    ) {
+      segments.push({ type: 'SWAPPED', text: answer.slice(i - 2, i), expected: target.slice(j - 2, j) });
+      i -= 2;
+      j -= 2;
+    } else if (i > 0 && j > 0 && current === matrix[i - 1][j - 1] + 1) {
+      segments.push({ type: 'REPLACED', text: answer[i - 1], expected: target[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && current === matrix[i - 1][j] + 1) {
+      segments.push({ type: 'INSERTED', text: answer[i - 1], expected: '' });
+      i--;
+    } else {
+      segments.push({ type: 'MISSING', text: '', expected: target[j - 1] });
+      j--;
+    }
+  }
+
+  // Соседние отрезки одного типа объединяются (перестановки остаются отдельными)
+  return segments.reverse().reduce<AnswerDiffSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type && segment.type !== 'SWAPPED') {
+      last.text += segment.text;
+      last.expected += segment.expected;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+}
+
+const TYPO_DESCRIPTIONS: Record<Exclude<AnswerDiffSegment['type'], 'EQUAL'>, string> = {
+  INSERTED: 'лишние буквы',
+  MISSING: 'пропущены буквы',
+  REPLACED: 'неверные буквы',
+  SWAPPED: 'переставлены соседние буквы',
+};
+
+// Короткое описание ошибок для подсказки. Правильные буквы не раскрываются:
+// места ошибок клиент подсвечивает по diff
+export function describeTypo(diff: AnswerDiffSegment[]): string {
+  const types = [...new Set(diff.map((segment) => segment.type))]
+    .filter((type): type is keyof typeof TYPO_DESCRIPTIONS => type !== 'EQUAL');
+  return `Близко! Проверьте правописание: ${types.map((type) => TYPO_DESCRIPTIONS[type]).join(', ')}`;
+}
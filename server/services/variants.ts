@@ -0,0 +1,111 @@
+// Принятые варианты ответа: основной перевод слова и дополнительные варианты из word_variants
+import { Direction, NormalizationRule, WordVariantInput } from '../types';
+import { normalizeText, DEFAULT_NORMALIZATION_RULES, NORMALIZATION_RULES } from './normalize';
+import { russianMeanings } from './russian';
+
+const OPTIONAL_PART = /\(([^()]*)\)/;
+
+export interface AcceptedAnswer {
+  // Форма, с которой сравнивается ответ
+  form: string;
+  // Исходный текст варианта (как он записан у слова; для перевода — отдельное значение)
+  source: string;
+  isPrimary: boolean;
+}
+
+// Привести ответ к виду для сравнения: регистр и лишние пробелы не важны
+export function normalizeAnswer(text: string): string {
+  return text.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+// Полная форма варианта: необязательные части остаются, скобки убираются ("proceed (with)" → "proceed with")
+export function fullForm(text: string): string {
+  return text.replace(/[()]/g, '').trim().replace(/\s+/g, ' ');
+}
+
+// Раскрыть необязательные части в скобках: "proceed (with)" → ["proceed with", "proceed"]
+export function expandOptionalParts(text: string): string[] {
+  const match = OPTIONAL_PART.exec(text);
+  if (!match) {
+    return [normalizeAnswer(text)];
+  }
+
+  const before = text.slice(0, match.index);
+  const after = text.slice(match.index + match[0].length);
+  const forms = [
+    ...expandOptionalParts(before + match[1] + after),
+    ...expandOptionalParts(before + ' ' + after),
+  ];
+  return [...new Set(forms)].filter((form) => form.length > 0);
+}
+
+// Все формы, которые принимаются в заданном направлении.
+// Русский перевод делится на значения: достаточно назвать любое из них
+export function acceptedAnswers(
+  primary: string,
+  variants: { text: string; direction: Direction }[],
+  direction: Direction
+): AcceptedAnswer[] {
+  const primaryTexts = direction === 'EN_RU' ? russianMeanings(primary) : [primary];
+  const sources = [
+    ...primaryTexts.map((text) => ({ text, isPrimary: true })),
+    ...variants
+      .filter((variant) => variant.direction === direction)
+      .map((variant) => ({ text: variant.text, isPrimary: false })),
+  ];
+
+  return sources.flatMap(({ text, isPrimary }) =>
+    expandOptionalParts(text).map((form) => ({ form, source: text, isPrimary }))
+  );
+}
+
+export interface AnswerMatch {
+  accepted: AcceptedAnswer;
+  // Правила нормализации, изменившие ответ или вариант (пусто при точном совпадении)
+  normalization: NormalizationRule[];
+}
+
+// Найти принятый вариант, совпадающий с ответом: сначала точно, затем после нормализации
+export function matchAcceptedAnswer(
+  answer: string,
+  accepted: AcceptedAnswer[],
+  rules: NormalizationRule[] = DEFAULT_NORMALIZATION_RULES
+): AnswerMatch | null {
+  const exact = accepted.find((candidate) => candidate.form === answer.toLowerCase().trim());
+  if (exact) {
+    return { accepted: exact, normalization: [] };
+  }
+
+  const normalized = normalizeText(answer, rules);
+  for (const candidate of accepted) {
+    const form = normalizeText(candidate.form, rules);
+    if (form.text === normalized.text) {
+      const applied = new Set([...normalized.applied, ...form.applied]);
+      return {
+        accepted: candidate,
+        normalization: NORMALIZATION_RULES.filter((rule) => applied.has(rule))
+      };
+    }
+  }
+  return null;
+}
+
+// Очистить варианты из запроса: пустые строки и повторы отбрасываются.
+// null — передан вариант без текста или с неизвестным направлением
+export function parseVariants(raw: unknown): WordVariantInput[] | null {
+  if (!Array.isArray(raw)) {
+    return null;
+  }
+
+  const variants = new Map<string, WordVariantInput>();
+  for (const item of raw) {
+    if (typeof item?.text !== 'string' || !['RU_EN', 'EN_RU'].includes(item.direction)) {
+      return null;
+    }
+    const text = item.text.trim();
+    if (text) {
+      variants.set(`${item.direction}:${text.toLowerCase()}`, { text, direction: item.direction });
+    }
+  }
+  return [...variants.values()];
+}
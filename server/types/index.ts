@@ -1,17 +1,303 @@
+export type Direction = 'RU_EN' | 'EN_RU';
+
+export type StudyDirection = Direction | 'MIXED';
+
+export type MasteryLevel = 'NEW' | 'LEARNING' | 'FAMILIAR' | 'MASTERED';
+
+export type ExerciseType = 'TYPING' | 'CLOZE' | 'MULTIPLE_CHOICE';
+
+export type AnswerKind = 'ATTEMPT' | 'REVEAL' | 'GIVE_UP';
+
+export type NormalizationRule = 'APOSTROPHES' | 'CONTRACTIONS' | 'PUNCTUATION' | 'WHITESPACE' | 'OPTIONAL_PREFIX'
+  | 'REFLEXIVE' | 'ASPECT';
+
+export type PartOfSpeech = 'NOUN' | 'VERB' | 'ADJECTIVE' | 'ADVERB' | 'PRONOUN' | 'PREPOSITION' | 'CONJUNCTION'
+  | 'INTERJECTION' | 'PHRASAL_VERB' | 'PHRASE';
+
+// Стилистическая помета слова
+export type Register = 'FORMAL' | 'INFORMAL' | 'LEGAL';
+
+export type HintType = 'FIRST_LETTER' | 'LETTER_COUNT' | 'MASK' | 'PART_OF_SPEECH';
+
 export interface Word {
   id: number;
   english: string;
   russian: string;
-  exampleEn: string;
-  exampleRu: string;
   createdAt: Date;
   updatedAt: Date;
   isFavorite: boolean;
+  synonymGroupId: number | null;
+  normalization: NormalizationRule[];
+  // Откуда взято слово: фраза из текста и ссылка на документ ("" — не указано)
+  sourceText: string;
+  sourceUrl: string;
+  // Часть речи и помета (null — не указаны), транскрипция IPA и заметки ("" — не указаны)
+  partOfSpeech: PartOfSpeech | null;
+  register: Register | null;
+  transcription: string;
+  notes: string;
+  // Когда слово перемещено в корзину (null — не удалено)
+  deletedAt: Date | null;
+  variants?: WordVariant[];
+  // Примеры употребления по порядку
+  examples?: Example[];
+  tags?: Tag[];
+  decks?: Deck[];
+}
+
+export interface Example {
+  id: number;
+  wordId: number;
+  english: string;
+  russian: string;
+  position: number;
+  createdAt: Date;
+}
+
+export interface Tag {
+  id: number;
+  name: string;
+}
+
+export interface TagSummary extends Tag {
+  // Сколько слов с этой меткой
+  wordCount: number;
+}
+
+export interface WordVariant {
+  id: number;
+  wordId: number;
+  text: string;
+  direction: Direction;
+  createdAt: Date;
+}
+
+export interface SynonymGroup {
+  id: number;
+  name: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  words: Word[];
+}
+
+export interface Deck {
+  id: number;
+  name: string;
+  // Встроенная колода избранного: не переименовывается и не удаляется
+  builtIn: boolean;
+  // Стратегия проверки ответов для слов колоды; null — по типу упражнения
+  gradingStrategy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DeckSummary extends Deck {
+  wordCount: number;
+}
+
+export interface DeckRequest {
+  name?: string;
+  // Полностью заменяет состав колоды
+  wordIds?: number[];
+  // Имя стратегии проверки ответов; null — по типу упражнения
+  gradingStrategy?: string | null;
+}
+
+export interface GradingStrategyInfo {
+  name: string;
+  // Упражнения, для которых подходит стратегия
+  exercises: ExerciseType[];
+}
+
+export interface DeckWordsRequest {
+  wordIds: number[];
+}
+
+export interface SynonymGroupRequest {
+  name?: string | null;
+  wordIds: number[];
+}
+
+// Предложенная группа: слова с общими значениями русского перевода
+export interface SynonymSuggestion {
+  words: Word[];
+  sharedMeanings: string[];
+}
+
+export interface WordVariantInput {
+  text: string;
+  direction: Direction;
+}
+
+export interface ExampleInput {
+  english: string;
+  russian: string;
+}
+
+export interface ExampleOrderRequest {
+  // Все примеры слова в новом порядке
+  exampleIds: number[];
+}
+
+export type RevisionAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE';
+
+// Состояние слова в истории правок (без ответов и расписания)
+export interface WordSnapshot {
+  english: string;
+  russian: string;
+  isFavorite: boolean;
+  normalization: NormalizationRule[];
+  sourceText: string;
+  sourceUrl: string;
+  partOfSpeech: PartOfSpeech | null;
+  register: Register | null;
+  transcription: string;
+  notes: string;
+  examples: ExampleInput[];
+  variants: WordVariantInput[];
+  tags: string[];
+}
+
+export type WordSnapshotField = keyof WordSnapshot;
+
+export interface WordRevision {
+  id: number;
+  wordId: number;
+  action: RevisionAction;
+  author: string;
+  // null — слова еще не было (CREATE) или оно удалено (DELETE)
+  before: WordSnapshot | null;
+  after: WordSnapshot | null;
+  changes: WordSnapshotField[];
+  createdAt: Date;
+}
+
+// Слово в корзине и дата, когда оно будет удалено окончательно
+export interface TrashedWord extends Word {
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+export interface PurgeTrashResponse {
+  deletedCount: number;
+}
+
+export type WordSort = 'alphabetical' | 'date' | 'accuracy' | 'lastAnswered';
+export type SortOrder = 'asc' | 'desc';
+
+// Параметры списка слов (GET /words)
+export interface WordListQuery {
+  search?: string;
+  sort?: WordSort;
+  order?: SortOrder;
+  favorite?: boolean;
+  learned?: boolean;
+  deckId?: number;
+  // Название метки
+  tag?: string;
+  cursor?: number;
+  limit?: number;
+}
+
+export interface WordListItem extends Word {
+  // Доля правильных ответов; null — на слово еще не отвечали
+  accuracy: number | null;
+  lastAnsweredAt: Date | null;
+}
+
+export interface WordPage {
+  words: WordListItem[];
+  // Сколько всего слов подходит под фильтры
+  total: number;
+  // id последнего слова страницы; null — страница последняя
+  nextCursor: number | null;
+}
+
+// Фильтры списка слов без сортировки и страниц: по ним выбираются слова для массовых действий
+export type WordFilter = Pick<WordListQuery, 'search' | 'favorite' | 'learned' | 'deckId' | 'tag'>;
+
+export type BulkAction = 'FAVORITE' | 'UNFAVORITE' | 'ADD_TAG' | 'REMOVE_TAG' | 'MOVE_TO_DECK' | 'RESET_PROGRESS' | 'DELETE';
+
+// Массовое действие над словами: слова задаются списком id или фильтром
+export interface BulkWordsRequest {
+  action: BulkAction;
+  wordIds?: number[];
+  filter?: WordFilter;
+  // Метка для ADD_TAG и REMOVE_TAG
+  tag?: string;
+  // Колода для MOVE_TO_DECK
+  deckId?: number;
+}
+
+export interface BulkWordsResult {
+  action: BulkAction;
+  // Сколько слов затронуло действие
+  affected: number;
+}
+
+// Запись экспорта переводов Reverso (формат translations.json)
+export interface ReversoEntry {
+  'Search language'?: string;
+  'Translation language'?: string;
+  'Search text': string;
+  'Translation text': string;
+  'Search example'?: string;
+  'Translation example'?: string;
+  'Tags / Comments'?: string;
+  'Source text'?: string;
+  'Document / URL'?: string;
+}
+
+export type ImportAction = 'ADD' | 'UPDATE' | 'SKIP' | 'ERROR';
+
+export type TableFormat = 'csv' | 'tsv';
+
+// Поля слова, которые можно сопоставить столбцам CSV/TSV; exampleEn и exampleRu — первый пример слова
+export type WordColumn = 'english' | 'russian' | 'exampleEn' | 'exampleRu' | 'isFavorite'
+  | 'tags' | 'sourceText' | 'sourceUrl';
+
+export interface TableImportRequest {
+  content: string;
+  // Поле слова для каждого столбца по порядку (null — столбец пропускается).
+  // Без сопоставления столбцы определяются по заголовку или берутся в порядке экспорта
+  columns?: (WordColumn | null)[];
+  // Первая строка файла — заголовок
+  header?: boolean;
+}
+
+// Результат импорта одной записи файла
+export interface ImportItem {
+  action: ImportAction;
+  // Номер записи в файле (для CSV/TSV — номер строки)
+  row: number;
+  english: string;
+  russian: string;
+  // Существующее слово, с которым сопоставлена запись
+  wordId?: number;
+  // Поля слова, которые изменит импорт
+  changes?: string[];
+  // Причина пропуска или ошибка в записи
+  reason?: string;
+}
+
+export interface ImportResult {
+  // true — изменения только показаны и не сохранены
+  dryRun: boolean;
+  added: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+  items: ImportItem[];
 }
 
 export interface StudyWordResponse {
   word: Word;
+  direction: Direction;
+  // Пример, который показывается при этом повторении (null — у слова нет примеров)
+  exampleId: number | null;
   unlearnedCount: number;
+  dueCount: number;
+  newCount: number;
 }
 
 export interface Answer {
@@ -20,40 +306,229 @@ export interface Answer {
   answer: string;
   isCorrect: boolean;
   isSynonym: boolean;
+  direction: Direction;
+  exercise: ExerciseType;
+  kind: AnswerKind;
+  hints: HintType[];
+  quality: number | null;
+  sessionId: number | null;
   createdAt: Date;
 }
 
+export interface ClozeWordResponse {
+  word: Word;
+  cloze: string;
+  blanks: number;
+  // Пример, из которого построен пропуск
+  exampleId: number;
+  dueCount: number;
+  newCount: number;
+}
+
+export interface MultipleChoiceResponse {
+  word: Word;
+  direction: Direction;
+  options: string[];
+  exampleId: number | null;
+  dueCount: number;
+  newCount: number;
+}
+
 export interface CreateWordRequest {
   english: string;
   russian: string;
-  exampleEn: string;
-  exampleRu: string;
+  examples?: ExampleInput[];
+  variants?: WordVariantInput[];
+  normalization?: NormalizationRule[];
+  // Названия меток; недостающие метки создаются
+  tags?: string[];
+  sourceText?: string;
+  sourceUrl?: string;
+  partOfSpeech?: PartOfSpeech | null;
+  register?: Register | null;
+  transcription?: string;
+  notes?: string;
+  // Создать слово, даже если есть похожее (но не совпадающее) слово
+  allowSimilar?: boolean;
+}
+
+export interface DuplicateMatch {
+  word: Word;
+  // true — английский текст совпадает после нормализации, false — отличается на опечатку
+  exact: boolean;
+}
+
+// Данные ответа 409 при создании слова, которое уже есть в словаре
+export interface DuplicateConflict {
+  duplicates: DuplicateMatch[];
+}
+
+export interface DuplicatePair {
+  words: [Word, Word];
+  exact: boolean;
+}
+
+export type MergeField = 'english' | 'russian' | 'transcription' | 'notes' | 'partOfSpeech' | 'register';
+
+export interface MergeWordsRequest {
+  // Слово, которое остается
+  targetId: number;
+  // Слово, которое сливается с ним и удаляется
+  sourceId: number;
+  // Поля, значения которых берутся из сливаемого слова (пустые поля оставшегося слова
+  // заполняются из него и так); примеры объединяются
+  fromSource?: MergeField[];
 }
 
 export interface UpdateWordRequest {
   english?: string;
   russian?: string;
-  exampleEn?: string;
-  exampleRu?: string;
   isFavorite?: boolean;
+  // Полностью заменяет список примеров
+  examples?: ExampleInput[];
+  // Полностью заменяет список принятых вариантов
+  variants?: WordVariantInput[];
+  normalization?: NormalizationRule[];
+  // Полностью заменяет список меток
+  tags?: string[];
+  sourceText?: string;
+  sourceUrl?: string;
+  partOfSpeech?: PartOfSpeech | null;
+  register?: Register | null;
+  transcription?: string;
+  notes?: string;
 }
 
 export interface CheckAnswerRequest {
   wordId: number;
   answer: string;
+  direction?: Direction;
+  sessionId?: number;
+  // Колода, из которой изучается слово: задает стратегию проверки (иначе берется колода сессии)
+  deckId?: number;
+  // Подсказки, которые пользователь открыл до ответа
+  hints?: HintType[];
+}
+
+export interface CheckClozeRequest {
+  wordId: number;
+  answer: string;
+  // Пример, из которого был построен пропуск
+  exampleId?: number;
+  sessionId?: number;
+  // Колода, из которой изучается слово: задает стратегию проверки (иначе берется колода сессии)
+  deckId?: number;
+  hints?: HintType[];
+}
+
+export interface CheckChoiceRequest {
+  wordId: number;
+  answer: string;
+  direction?: Direction;
+  sessionId?: number;
+  // Колода, из которой изучается слово: задает стратегию проверки (иначе берется колода сессии)
+  deckId?: number;
+  hints?: HintType[];
+}
+
+// Ответ не дан: пользователь подсмотрел ответ или сдался
+export interface RevealAnswerRequest {
+  wordId: number;
+  kind: Exclude<AnswerKind, 'ATTEMPT'>;
+  direction?: Direction;
+  exercise?: ExerciseType;
+  // Для упражнения с пропуском — пример, из которого был построен пропуск
+  exampleId?: number;
+  sessionId?: number;
+  hints?: HintType[];
+}
+
+export interface HintResponse {
+  type: HintType;
+  hint: string;
+  penalty: number;
+}
+
+export type DiffSegmentType = 'EQUAL' | 'INSERTED' | 'MISSING' | 'REPLACED' | 'SWAPPED';
+
+// Отрезок посимвольного сравнения ответа с правильной формой
+export interface AnswerDiffSegment {
+  type: DiffSegmentType;
+  // Как введено пользователем (пусто для пропущенных символов)
+  text: string;
+  // Как должно быть (пусто для лишних символов)
+  expected: string;
 }
 
 export interface CheckAnswerResponse {
   isCorrect: boolean;
+  // Принятый вариант, с которым совпал ответ (если это не основной перевод)
+  matchedVariant?: string;
+  // Значение многозначного русского перевода, с которым совпал ответ
+  matchedMeaning?: string;
+  // Правила нормализации, благодаря которым ответ совпал
+  normalization?: NormalizationRule[];
   isPartial: boolean;
   hint?: string;
   isSynonym?: boolean;
+  // Посимвольное сравнение с ближайшей правильной формой при опечатке
+  diff?: AnswerDiffSegment[];
   correctAnswer: string;
   todayCorrectAnswers: number;
   totalCorrectAnswers: number;
   totalWords: number;
 }
 
+export interface CreateSessionRequest {
+  size: number;
+  direction?: Direction;
+  levels?: MasteryLevel[];
+  favoriteOnly?: boolean;
+  deckId?: number;
+  newOnly?: boolean;
+  failedRecently?: boolean;
+}
+
+export interface StudySession {
+  id: number;
+  size: number;
+  direction: Direction;
+  favoriteOnly: boolean;
+  deckId: number | null;
+  newOnly: boolean;
+  failedRecently: boolean;
+  levels: MasteryLevel[];
+  startedAt: Date;
+  finishedAt: Date | null;
+  completedCount: number;
+  currentWord: Word | null;
+  // Пример текущего слова для этого повторения
+  currentExampleId: number | null;
+}
+
+export interface SessionSummary {
+  sessionId: number;
+  size: number;
+  totalAnswers: number;
+  correctAnswers: number;
+  accuracy: number;
+  timeSpentSeconds: number;
+  missedWords: Word[];
+}
+
+// Статистика колоды: изученные слова, слова к повторению и точность ответов на слова колоды
+export interface DeckStats {
+  id: number;
+  name: string;
+  builtIn: boolean;
+  totalWords: number;
+  learnedWords: number;
+  dueWords: number;
+  totalAnswers: number;
+  correctAnswers: number;
+  accuracy: number;
+}
+
 export interface ClearAnswersResponse {
   deletedCount: number;
 }